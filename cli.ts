@@ -0,0 +1,47 @@
+import Logger from './src/utils/logger';
+import ConfigOverrides from './src/utils/overrides';
+import { CliCommand } from './src/cli/types';
+import init from './src/cli/init';
+import status from './src/cli/status';
+import verify from './src/cli/verify';
+import gc from './src/cli/gc';
+import register from './src/cli/register';
+import exportIndex from './src/cli/exportIndex';
+
+const COMMANDS: CliCommand[] = [init, status, verify, gc, register, exportIndex];
+
+function printUsage(): void {
+    console.log('Usage: cli [--config <file>] <command> [options]\n');
+    console.log('Commands:');
+    COMMANDS.forEach(command => console.log(`  ${command.usage.padEnd(52)} ${command.summary}`));
+    console.log('\nSettings overrides from the environment apply as they do for the node.');
+}
+
+async function main(argv: string[]): Promise<number> {
+    // Global options come before the command name
+    const overrideArgs: string[] = [];
+    while (argv[0]?.startsWith('--config')) {
+        const option = argv.shift()!;
+        overrideArgs.push(option);
+        if (!option.includes('=') && argv.length > 0) overrideArgs.push(argv.shift()!);
+    }
+
+    const command = COMMANDS.find(candidate => candidate.name === argv[0]);
+    if (!command) {
+        printUsage();
+        return argv.length === 0 || argv[0] === '--help' ? 0 : 1;
+    }
+
+    ConfigOverrides.load(overrideArgs);
+    return command.run(argv.slice(1));
+}
+
+// Keep the node's informational logs out of the command output
+Logger.configure({ level: 'warn', format: 'text' });
+
+main(process.argv.slice(2)).then(code => {
+    process.exit(code);
+}).catch(error => {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+});
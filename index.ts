@@ -1,20 +1,74 @@
 import * as path from 'path';
 import SettingUtils from './src/utils/setting';
 import SocketController from './src/controllers/socket';
+import AdminHttpController from './src/controllers/adminHttp';
+import MetricsHttpController from './src/controllers/metricsHttp';
+import SettingsWatcher from './src/controllers/settingsWatcher';
 import SystemUtils from './src/utils/system';
+import Logger from './src/utils/logger';
+import ConfigOverrides from './src/utils/overrides';
+
+const log = Logger.get('main');
+
+if (process.argv.includes('--help')) {
+    console.log(ConfigOverrides.getUsage());
+    process.exit(0);
+}
+try {
+    ConfigOverrides.load();
+} catch (error) {
+    log.error("Invalid command-line or environment overrides", error);
+    process.exit(1);
+}
 
 if (!SettingUtils.checkSettingsFileExists()) {
-    console.error('Settings file not found!');
-    console.error('Please configure the paths in your settings file before running the application.');
+    log.error("Settings file not found, configure the paths in your settings file before running the application");
     process.exit(1);
 } 
 SettingUtils.loadSettings().then(() => {
-    console.log('Settings loaded successfully.');
+    log.info("Settings loaded successfully");
 
     const socketController = new SocketController();
-    socketController.createConnection();   
+    socketController.createConnection();
+
+    const adminHttpController = new AdminHttpController(socketController);
+    adminHttpController.start();
+
+    const metricsHttpController = new MetricsHttpController(socketController);
+    metricsHttpController.start();
+
+    const settingsWatcher = new SettingsWatcher(socketController);
+    settingsWatcher.start();
+    process.on('SIGHUP', () => {
+        log.info("Received SIGHUP, reloading settings");
+        settingsWatcher.reload();
+    });
+
+    let stopping = false;
+    const stop = (signal: NodeJS.Signals) => {
+        if (stopping) {
+            log.warn("Received stop signal again, exiting without draining", { signal });
+            process.exit(1);
+        }
+        stopping = true;
+        log.info("Shutting down", { signal });
+        settingsWatcher.stop();
+
+        Promise.all([
+            socketController.shutdown(),
+            adminHttpController.stop(),
+            metricsHttpController.stop()
+        ]).then(() => {
+            process.exit(0);
+        }).catch(error => {
+            log.error("Error during shutdown", error);
+            process.exit(1);
+        });
+    };
+    process.on('SIGTERM', stop);
+    process.on('SIGINT', stop);
 }).catch(error => {
-    console.error(error);
+    log.error("Error starting node", error);
     process.exit(1);
 });
 
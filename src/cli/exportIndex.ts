@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
+import { FragmentRecord } from '../types';
+import { CliCommand } from './types';
+
+const CSV_COLUMNS: Array<keyof FragmentRecord> = ['id', 'path', 'size', 'hash', 'created_at', 'last_served_at', 'last_scrubbed_at', 'origins'];
+
+function csvField(value: unknown): string {
+    if (value === undefined) return '';
+    const text = Array.isArray(value) ? value.join(' ') : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const exportIndex: CliCommand = {
+    name: 'export-index',
+    summary: 'Write the fragment index as JSON or CSV',
+    usage: 'export-index [--format json|csv] [--output <file>]',
+
+    async run(argv) {
+        const { values } = parseArgs({
+            args: argv,
+            options: {
+                format: { type: 'string', default: 'json' },
+                output: { type: 'string' }
+            }
+        });
+        if (values.format !== 'json' && values.format !== 'csv') {
+            console.error('--format must be json or csv');
+            return 1;
+        }
+
+        SettingUtils.loadConfig(false);
+        if (!FragmentIndex.load()) {
+            console.error('No fragment index found, start the node once to build it');
+            return 1;
+        }
+
+        const records = FragmentIndex.getAll();
+        const data = values.format === 'json'
+            ? JSON.stringify(records, null, 2) + '\n'
+            : [CSV_COLUMNS.join(','), ...records.map(record => CSV_COLUMNS.map(column => csvField(record[column])).join(','))].join('\n') + '\n';
+
+        if (values.output) {
+            await fs.promises.writeFile(values.output, data, 'utf8');
+            console.error(`Exported ${records.length} fragments to ${values.output}`);
+        } else {
+            process.stdout.write(data);
+        }
+        return 0;
+    }
+};
+
+export default exportIndex;
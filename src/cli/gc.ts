@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
+import { formatBytes } from './format';
+import { CliCommand } from './types';
+
+const DEFAULT_MIN_AGE_MINUTES = 60;
+
+const gc: CliCommand = {
+    name: 'gc',
+    summary: 'Remove partial downloads and files missing from the fragment index',
+    usage: 'gc [--dry-run] [--min-age <minutes>]',
+
+    async run(argv) {
+        const { values } = parseArgs({
+            args: argv,
+            options: {
+                'dry-run': { type: 'boolean' },
+                'min-age': { type: 'string' }
+            }
+        });
+        const minAgeMinutes = values['min-age'] !== undefined ? Number(values['min-age']) : DEFAULT_MIN_AGE_MINUTES;
+        if (!Number.isFinite(minAgeMinutes) || minAgeMinutes < 0) {
+            console.error('--min-age must be a number of minutes');
+            return 1;
+        }
+
+        SettingUtils.loadConfig(false);
+        const indexed = FragmentIndex.load();
+        if (!indexed) {
+            console.log('No fragment index found, only partial downloads are removed');
+        }
+
+        // Files younger than this may belong to a download or delete the node is running right now
+        const cutoff = Date.now() - minAgeMinutes * 60 * 1000;
+        let removedFiles = 0;
+        let removedBytes = 0;
+
+        for (const remotePath of SettingUtils.getRemotePaths()) {
+            if (!fs.existsSync(remotePath.path)) continue;
+
+            for (const file of await fs.promises.readdir(remotePath.path)) {
+                const filePath = path.join(remotePath.path, file);
+                const stat = await fs.promises.stat(filePath);
+                if (!stat.isFile() || stat.mtimeMs > cutoff) continue;
+
+                let reason: string | undefined;
+                if (file.endsWith('.tmp')) {
+                    reason = 'partial download';
+                } else if (indexed && FragmentIndex.get(file)?.path !== filePath) {
+                    reason = 'not in the fragment index';
+                }
+                if (!reason) continue;
+
+                console.log(`${values['dry-run'] ? 'Would remove' : 'Removing'} ${filePath} (${reason}, ${formatBytes(stat.size)})`);
+                if (!values['dry-run']) {
+                    try {
+                        await fs.promises.unlink(filePath);
+                    } catch (error) {
+                        console.error(`  failed: ${error instanceof Error ? error.message : String(error)}`);
+                        continue;
+                    }
+                }
+                removedFiles++;
+                removedBytes += stat.size;
+            }
+        }
+
+        console.log(`${values['dry-run'] ? 'Would free' : 'Freed'} ${formatBytes(removedBytes)} in ${removedFiles} files`);
+        return 0;
+    }
+};
+
+export default gc;
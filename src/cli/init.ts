@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { parseArgs } from 'util';
+import { AppConfig, StoragePath } from '../types';
+import { DEFAULT_SETTING } from '../config/constants';
+import SettingUtils from '../utils/setting';
+import { CliCommand } from './types';
+
+function splitList(answer: string): string[] {
+    return answer.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+const init: CliCommand = {
+    name: 'init',
+    summary: 'Create the settings file interactively',
+    usage: 'init [--force]',
+
+    async run(argv) {
+        const { values } = parseArgs({ args: argv, options: { force: { type: 'boolean' } } });
+        const settingsPath = SettingUtils.getSettingsPath();
+        if (fs.existsSync(settingsPath) && !values.force) {
+            console.error(`${settingsPath} already exists, use --force to replace it`);
+            return 1;
+        }
+
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        // Read through the line iterator so answers piped in ahead of the prompts are not lost
+        const lines = rl[Symbol.asyncIterator]();
+        const ask = async (question: string, fallback: string): Promise<string> => {
+            process.stdout.write(`${question} [${fallback}]: `);
+            const { value, done } = await lines.next();
+            const answer = done ? '' : String(value).trim();
+            return answer === '' ? fallback : answer;
+        };
+
+        try {
+            const servers = splitList(await ask('Signaling servers, comma separated', DEFAULT_SETTING.signaling_servers.join(',')));
+
+            const paths: StoragePath[] = [];
+            for (const storagePath of splitList(await ask('Storage paths, comma separated', process.cwd()))) {
+                const threshold = Number(await ask(`Maximum disk usage for ${storagePath} in percent`, '80'));
+                paths.push({ path: path.resolve(storagePath), threshold });
+            }
+
+            const defaultIce = DEFAULT_SETTING.webrtc.iceServers.map(server => server.urls).join(',');
+            const iceUrls = splitList(await ask('STUN/TURN servers, comma separated', defaultIce));
+
+            const config: AppConfig = {
+                ...DEFAULT_SETTING,
+                signaling_servers: servers as AppConfig['signaling_servers'],
+                webrtc: { iceServers: iceUrls.map(url => ({ urls: url })) as AppConfig['webrtc']['iceServers'] },
+                paths
+            };
+            SettingUtils.createSettings(config);
+        } catch (error) {
+            console.error(error instanceof Error ? error.message : String(error));
+            return 1;
+        } finally {
+            rl.close();
+        }
+
+        console.log(`Settings written to ${settingsPath}`);
+        console.log(`Run "register" to sign the node up, or start it and it will sign up on its own`);
+        return 0;
+    }
+};
+
+export default init;
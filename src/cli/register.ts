@@ -0,0 +1,59 @@
+import { io, Socket } from 'socket.io-client';
+import { parseArgs } from 'util';
+import SettingUtils from '../utils/setting';
+import ConfigOverrides from '../utils/overrides';
+import SignalSocketController from '../controllers/signalSocket';
+import ConnectionSupervisor from '../controllers/connectionSupervisor';
+import { CliCommand } from './types';
+
+const CONNECT_TIMEOUT = 10000; // 10 seconds
+
+function connect(url: string): Promise<Socket> {
+    const socket = io(url, { path: '/socket.io', reconnection: false, timeout: CONNECT_TIMEOUT });
+    return new Promise((resolve, reject) => {
+        socket.once('connect', () => resolve(socket));
+        socket.once('connect_error', error => {
+            socket.disconnect();
+            reject(new Error(`Cannot connect to ${url}: ${error.message}`));
+        });
+    });
+}
+
+const register: CliCommand = {
+    name: 'register',
+    summary: 'Sign the node up with a signaling server and save the credentials',
+    usage: 'register [--server <url>] [--force]',
+
+    async run(argv) {
+        const { values } = parseArgs({
+            args: argv,
+            options: {
+                server: { type: 'string' },
+                force: { type: 'boolean' }
+            }
+        });
+
+        SettingUtils.loadConfig(false);
+        if (ConfigOverrides.has('node_id')) {
+            console.error('The node id is set by an override, remove it before registering');
+            return 1;
+        }
+        const appInfo = SettingUtils.getAppInfo();
+        if (appInfo?.id && !values.force) {
+            console.error(`The node is already registered as ${appInfo.id}, use --force to register it again`);
+            return 1;
+        }
+
+        const url = values.server || await new ConnectionSupervisor().selectServer(SettingUtils.getSignalingServers() || []);
+        const socket = await connect(url);
+        try {
+            const info = await new SignalSocketController(socket, url).signUpDevice();
+            console.log(`Registered with ${url} as ${info.id}, credentials saved to ${SettingUtils.getSettingsPath()}`);
+            return 0;
+        } finally {
+            socket.disconnect();
+        }
+    }
+};
+
+export default register;
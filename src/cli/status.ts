@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import SettingUtils from '../utils/setting';
+import PathUtils from '../utils/path';
+import FragmentIndex from '../utils/fragmentIndex';
+import { isLocalLocation } from '../storage/location';
+import { formatBytes } from './format';
+import { CliCommand } from './types';
+
+const status: CliCommand = {
+    name: 'status',
+    summary: 'Show the node id, storage usage and fragment counts',
+    usage: 'status',
+
+    async run() {
+        SettingUtils.loadConfig(false);
+        const settingsPath = SettingUtils.getSettingsPath();
+        const appInfo = SettingUtils.getAppInfo();
+
+        console.log(`Settings:          ${fs.existsSync(settingsPath) ? settingsPath : 'none, overrides only'}`);
+        console.log(`Node id:           ${appInfo?.id || 'not registered'}`);
+        console.log(`Signaling servers: ${(SettingUtils.getSignalingServers() || []).join(', ')}`);
+
+        const indexed = FragmentIndex.load();
+        const records = FragmentIndex.getAll();
+
+        console.log(`Storage:           ${SettingUtils.getStorageConfig().placement} placement`);
+        for (const remotePath of SettingUtils.getRemotePaths()) {
+            const stored = records.filter(record => path.dirname(record.path) === remotePath.path);
+            const storedBytes = stored.reduce((total, record) => total + record.size, 0);
+
+            let available: string;
+            try {
+                const info = await PathUtils.analyzeStoragePath(remotePath);
+                available = `${formatBytes(info.availableSpace)} available on ${info.mount}`;
+            } catch (error) {
+                available = error instanceof Error ? error.message : String(error);
+            }
+            const limits = [
+                `max ${remotePath.threshold}%`,
+                remotePath.max_fragments !== undefined ? `${remotePath.max_fragments} fragments` : undefined,
+                remotePath.max_size !== undefined ? formatBytes(remotePath.max_size) : undefined,
+                remotePath.weight !== undefined ? `weight ${remotePath.weight}` : undefined
+            ].filter(Boolean).join(', ');
+            console.log(`  ${remotePath.path} (${limits})`);
+            console.log(`    ${stored.length} fragments, ${formatBytes(storedBytes)}, ${available}`);
+        }
+
+        const objects = records.filter(record => !isLocalLocation(record.path));
+        const storage = SettingUtils.getStorageConfig();
+        if (storage.backend !== 'filesystem' || objects.length > 0) {
+            const objectBytes = objects.reduce((total, record) => total + record.size, 0);
+            const target = storage.s3 ? `${storage.s3.bucket} at ${storage.s3.endpoint}` : 'not configured';
+            console.log(`  object storage: ${target}${storage.backend !== 'filesystem' ? ', used for new fragments' : ''}`);
+            console.log(`    ${objects.length} fragments, ${formatBytes(objectBytes)}`);
+        }
+
+        if (!indexed) {
+            console.log('Fragments:         no fragment index yet, it is built when the node starts');
+            return 0;
+        }
+        const unhashed = records.filter(record => !record.hash).length;
+        console.log(`Fragments:         ${records.length}${unhashed > 0 ? ` (${unhashed} without a recorded hash)` : ''}`);
+        return 0;
+    }
+};
+
+export default status;
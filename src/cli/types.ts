@@ -0,0 +1,10 @@
+export interface CliCommand {
+    name: string
+    summary: string
+    usage: string
+    /**
+     * @param argv - Arguments after the command name
+     * @returns The process exit code
+     */
+    run(argv: string[]): Promise<number>
+}
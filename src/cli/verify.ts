@@ -0,0 +1,57 @@
+import { parseArgs } from 'util';
+import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
+import StorageUtils from '../utils/storage';
+import AsyncUtils from '../utils/async';
+import { HASH_CONCURRENCY } from '../config/constants';
+import { FragmentRecord } from '../types';
+import { CliCommand } from './types';
+
+const verify: CliCommand = {
+    name: 'verify',
+    summary: 'Re-hash stored fragments and compare them with the recorded hashes',
+    usage: 'verify [fragment-id...]',
+
+    async run(argv) {
+        const { positionals } = parseArgs({ args: argv, allowPositionals: true });
+        SettingUtils.loadConfig(false);
+        if (!FragmentIndex.load()) {
+            console.error('No fragment index found, start the node once to build it');
+            return 1;
+        }
+
+        let records: FragmentRecord[] = FragmentIndex.getAll();
+        if (positionals.length > 0) {
+            const unknown = positionals.filter(fragmentId => !FragmentIndex.get(fragmentId));
+            unknown.forEach(fragmentId => console.error(`${fragmentId}: not in the fragment index`));
+            records = records.filter(record => positionals.includes(record.id));
+        }
+
+        let corrupted = 0;
+        let missing = 0;
+        let unhashed = 0;
+        await AsyncUtils.mapLimit(records, HASH_CONCURRENCY, async record => {
+            if (!await StorageUtils.exists(record.path)) {
+                missing++;
+                console.log(`${record.id}: missing, expected at ${record.path}`);
+                return;
+            }
+            if (!record.hash) {
+                unhashed++;
+                return;
+            }
+
+            const actualHash = await StorageUtils.hash(record.path, false);
+            if (actualHash !== record.hash) {
+                corrupted++;
+                console.log(`${record.id}: corrupted, expected ${record.hash}, got ${actualHash || 'unreadable file'}`);
+            }
+        });
+
+        const ok = records.length - corrupted - missing - unhashed;
+        console.log(`${records.length} fragments checked: ${ok} ok, ${corrupted} corrupted, ${missing} missing, ${unhashed} without a recorded hash`);
+        return corrupted > 0 || missing > 0 ? 1 : 0;
+    }
+};
+
+export default verify;
@@ -0,0 +1,252 @@
+import { io, Socket, ManagerOptions, SocketOptions } from 'socket.io-client';
+import { RTCPeerConnection, RTCSessionDescription, RTCIceCandidate, RTCDataChannel } from '@roamhq/wrtc';
+import * as RTC from '../../../config/signal.socket.event.webrtc';
+import type { WebRTCAnswer, WebRTCOffer, WebRTCIceCandidate } from '../../../types/signal';
+import FragmentReceiver from '../controllers/webrtc/FragmentReceiver';
+import type { FragmentReceiveOptions, ReceivedFragment } from '../controllers/webrtc/types';
+import { PEER_CONNECT_TIMEOUT } from '../config/constants';
+import Logger from '../utils/logger';
+
+const RECEIVE_CHANNEL_LABEL = 'fragments';
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+    { urls: 'stun:stun.l.google.com:19302' }
+];
+
+export interface FragmentClientOptions {
+    // Read for every new connection, pass a function to follow configuration changes
+    iceServers?: RTCIceServer[] | (() => RTCIceServer[] | undefined)
+    connectTimeout?: number
+    log?: Logger
+}
+
+interface ClientPeer {
+    connection: RTCPeerConnection
+    dataChannel: RTCDataChannel
+    // Candidates that arrived before the answer, applied once it is set
+    pendingCandidates: RTCIceCandidateInit[]
+    receiver: Promise<FragmentReceiver>
+}
+
+function waitForOpen(dataChannel: RTCDataChannel, timeoutMs: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timeoutId = setTimeout(() => {
+            reject(new Error(`Data channel did not open within ${timeoutMs / 1000} seconds`));
+        }, timeoutMs);
+        dataChannel.onopen = () => {
+            clearTimeout(timeoutId);
+            resolve();
+        };
+        dataChannel.onclose = () => {
+            clearTimeout(timeoutId);
+            reject(new Error("Data channel closed before opening"));
+        };
+    });
+}
+
+/**
+ * Client side of the fragment transfer protocol: connects to nodes through a
+ * signaling server and pulls fragments from them over a data channel.
+ *
+ * Only answers and ICE candidates from nodes this client offered to are
+ * handled, so it can share a socket with the node's own WebRTC controller.
+ */
+export default class FragmentClient {
+    private socket: Socket;
+    private options: FragmentClientOptions;
+    private log: Logger;
+    private peers: Map<string, ClientPeer> = new Map();
+    private ownsSocket = false;
+
+    constructor(socket: Socket, options: FragmentClientOptions = {}) {
+        this.socket = socket;
+        this.options = options;
+        this.log = options.log || Logger.get('client');
+
+        this.socket.on(RTC.ANSWER, this.handleAnswer);
+        this.socket.on(RTC.ICE_CANDIDATE, this.handleIceCandidate);
+    }
+
+    /**
+     * Opens a socket to the signaling server and waits for it to connect, the
+     * socket is closed together with the client
+     */
+    public static connect(
+        url: string,
+        socketOptions: Partial<ManagerOptions & SocketOptions> = {},
+        options: FragmentClientOptions = {}
+    ): Promise<FragmentClient> {
+        const socket = io(url, { path: '/socket.io', reconnection: false, ...socketOptions });
+        return new Promise((resolve, reject) => {
+            socket.once('connect', () => {
+                const client = new FragmentClient(socket, options);
+                client.ownsSocket = true;
+                resolve(client);
+            });
+            socket.once('connect_error', error => {
+                socket.disconnect();
+                reject(new Error(`Cannot connect to ${url}: ${error.message}`));
+            });
+        });
+    }
+
+    public hasPeer(nodeId: string): boolean {
+        return this.peers.has(nodeId);
+    }
+
+    public getPeerCount(): number {
+        return this.peers.size;
+    }
+
+    /**
+     * Requests one fragment from a node, connecting to it first if needed
+     */
+    public async fetch(nodeId: string, options: FragmentReceiveOptions): Promise<ReceivedFragment> {
+        const receiver = await this.connectToNode(nodeId);
+        return receiver.receive(options);
+    }
+
+    /**
+     * Returns a receiver on an open data channel to the node. Concurrent callers
+     * share one connection, a closed one is replaced.
+     */
+    public async connectToNode(nodeId: string): Promise<FragmentReceiver> {
+        const peer = this.peers.get(nodeId);
+        if (peer) {
+            const receiver = await peer.receiver.catch(() => undefined);
+            if (receiver?.isOpen()) return receiver;
+            if (this.peers.get(nodeId) === peer) {
+                this.disconnect(nodeId);
+            }
+            return this.connectToNode(nodeId);
+        }
+        return this.openPeer(nodeId).receiver;
+    }
+
+    public disconnect(nodeId: string): void {
+        const peer = this.peers.get(nodeId);
+        if (!peer) return;
+
+        this.peers.delete(nodeId);
+        peer.dataChannel.close();
+        peer.connection.close();
+        this.log.info("Disconnected from node", { peer_id: nodeId });
+    }
+
+    /**
+     * Closes every connection and stops listening on the socket
+     */
+    public close(): void {
+        Array.from(this.peers.keys()).forEach(nodeId => this.disconnect(nodeId));
+        this.socket.off(RTC.ANSWER, this.handleAnswer);
+        this.socket.off(RTC.ICE_CANDIDATE, this.handleIceCandidate);
+        if (this.ownsSocket) {
+            this.socket.disconnect();
+        }
+    }
+
+    private openPeer(nodeId: string): ClientPeer {
+        const iceServers = typeof this.options.iceServers === 'function'
+            ? this.options.iceServers()
+            : this.options.iceServers;
+        const connection = new RTCPeerConnection({ iceServers: iceServers || DEFAULT_ICE_SERVERS });
+        const dataChannel = connection.createDataChannel(RECEIVE_CHANNEL_LABEL, { ordered: true });
+        const log = this.log.child({ peer_id: nodeId });
+
+        const peer: ClientPeer = {
+            connection,
+            dataChannel,
+            pendingCandidates: [],
+            receiver: this.negotiate(nodeId, connection, dataChannel, log)
+        };
+        // Failures surface through connectToNode, this only keeps them from going unhandled
+        peer.receiver.catch(() => undefined);
+        this.peers.set(nodeId, peer);
+
+        connection.onicecandidate = (event) => {
+            if (event.candidate) {
+                const candidateMessage: WebRTCIceCandidate = {
+                    target: nodeId,
+                    candidate: event.candidate.toJSON()
+                };
+                this.socket.emit(RTC.ICE_CANDIDATE, candidateMessage);
+            }
+        };
+        connection.onconnectionstatechange = () => {
+            log.debug(`Connection state changed to ${connection.connectionState}`);
+            if (connection.connectionState === 'failed' || connection.connectionState === 'closed') {
+                this.disconnectConnection(nodeId, connection);
+            }
+        };
+
+        return peer;
+    }
+
+    private async negotiate(
+        nodeId: string,
+        connection: RTCPeerConnection,
+        dataChannel: RTCDataChannel,
+        log: Logger
+    ): Promise<FragmentReceiver> {
+        const opened = waitForOpen(dataChannel, this.options.connectTimeout || PEER_CONNECT_TIMEOUT);
+        opened.catch(() => undefined);
+
+        try {
+            const offer = await connection.createOffer();
+            await connection.setLocalDescription(offer);
+            const offerMessage: WebRTCOffer = {
+                target: nodeId,
+                offer: offer
+            };
+            this.socket.emit(RTC.OFFER, offerMessage);
+            log.info("Sent offer");
+
+            await opened;
+        } catch (error) {
+            log.error("Error connecting to node", error);
+            this.disconnectConnection(nodeId, connection);
+            throw error;
+        }
+
+        log.info("Data channel open");
+        return new FragmentReceiver(dataChannel, log, () => undefined);
+    }
+
+    // Ignores connections that were already replaced by a newer one
+    private disconnectConnection(nodeId: string, connection: RTCPeerConnection): void {
+        if (this.peers.get(nodeId)?.connection === connection) {
+            this.disconnect(nodeId);
+        }
+    }
+
+    private handleAnswer = async (data: WebRTCAnswer): Promise<void> => {
+        const peer = data.source ? this.peers.get(data.source) : undefined;
+        if (!peer) return;
+
+        try {
+            await peer.connection.setRemoteDescription(new RTCSessionDescription(data.answer));
+            const candidates = peer.pendingCandidates.splice(0);
+            for (const candidate of candidates) {
+                await peer.connection.addIceCandidate(new RTCIceCandidate(candidate));
+            }
+        } catch (error) {
+            this.log.error("Error handling answer", error, { peer_id: data.source });
+            this.disconnect(data.source!);
+        }
+    }
+
+    private handleIceCandidate = async (data: WebRTCIceCandidate): Promise<void> => {
+        const peer = data.source ? this.peers.get(data.source) : undefined;
+        if (!peer || !data.candidate?.candidate) return;
+
+        if (!peer.connection.remoteDescription) {
+            peer.pendingCandidates.push(data.candidate);
+            return;
+        }
+        try {
+            await peer.connection.addIceCandidate(new RTCIceCandidate(data.candidate));
+        } catch (error) {
+            this.log.error("Error adding ICE candidate", error, { peer_id: data.source });
+        }
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Receiving side of the fragment transfer protocol, for node-to-node transfers
+ * and for tools or tests that pull fragments from a node.
+ */
+export { default as FragmentClient } from './FragmentClient';
+export type { FragmentClientOptions } from './FragmentClient';
+export { default as FragmentReceiver, ReceiveError } from '../controllers/webrtc/FragmentReceiver';
+export type { FragmentReceiveOptions, ReceivedFragment, ReceiveFailureReason } from '../controllers/webrtc/types';
+export { TransferMessageType, readChunkHeader, writeChunkHeader, crc32 } from '../controllers/webrtc/protocol';
+export type { ChunkHeader } from '../controllers/webrtc/protocol';
@@ -3,13 +3,23 @@ import { AppConfig } from '../types';
 
 export const ROOT_PATH: string = path.join(__dirname, '../..');
 export const SETTING_PATH: string = path.join(ROOT_PATH, 'node-settings.json');
+// Kept next to the settings file, wherever --config puts it
+export const HASH_CACHE_FILE = 'fragment-hashes.json';
+export const FRAGMENT_INDEX_FILE = 'fragment-index.json';
+
+// Bump together with a new entry in the migrations of utils/configSchema
+export const CONFIG_VERSION = 2;
 
 export const DEFAULT_SETTING: AppConfig = {
+    version: CONFIG_VERSION,
     signaling_servers: [
         //"https://p2p.cazo-dev.net",
         "http://localhost:3000",
         "http://192.168.5.20:3000"
     ],
+    signaling: {
+        max_connections: 1
+    },
     webrtc: {
         iceServers: [
             { urls: "stun:stun.l.google.com:19302" },
@@ -35,11 +45,82 @@ export const DEFAULT_SETTING: AppConfig = {
             path: ROOT_PATH,
             threshold: 80
         },
-    ]
+    ],
+    storage: {
+        backend: "filesystem",
+        placement: "most_free"
+    },
+    transfer: {
+        max_sessions: 8,
+        max_sessions_per_peer: 2,
+        max_queued_per_peer: 32,
+        max_upload_rate: 0,
+        max_upload_rate_per_peer: 0
+    },
+    scrub: {
+        enabled: true,
+        interval_hours: 24,
+        rate_bytes_per_sec: 10 * 1024 * 1024
+    },
+    quota: {
+        enabled: true,
+        interval_minutes: 5,
+        policy: "signaling",
+        headroom_percent: 5
+    },
+    download: {
+        concurrency: 3,
+        retries: 5,
+        retry_backoff_ms: 1000
+    },
+    admin: {
+        enabled: false,
+        host: "127.0.0.1",
+        port: 7070,
+        token: ""
+    },
+    metrics: {
+        enabled: false,
+        host: "127.0.0.1",
+        port: 9464,
+        path: "/metrics"
+    },
+    logging: {
+        level: "info",
+        format: "text",
+        modules: {}
+    }
 };
 
 export const REMOTE_PATH_NAME = "p2p-node-remote";
+export const QUARANTINE_PATH_NAME = "p2p-node-quarantine";
 
 export const LIMIT_VERIFY_FRAGMENT_PER_EMIT = 5;
 
+export const HASH_CONCURRENCY = 4;
+
 export const CHUNK_SIZE = 53 * 1024; // 53KB
+
+export const RESUME_POINT_TTL = 10 * 60 * 1000; // 10 minutes
+
+export const DOWNLOAD_PROGRESS_INTERVAL = 1000; // 1 second
+
+export const FS_SIZE_CACHE_TTL = 5000; // 5 seconds, in-flight downloads are tracked by placement reservations
+
+export const PEER_CONNECT_TIMEOUT = 15 * 1000; // 15 seconds
+export const RECEIVE_START_TIMEOUT = 2 * 60 * 1000; // 2 minutes, the sender may have the request queued
+export const RECEIVE_IDLE_TIMEOUT = 30 * 1000; // 30 seconds
+export const RECEIVE_KEEPALIVE_INTERVAL = 3000; // 3 seconds, well within the peer inactivity timeout
+
+export const SIGNALING_PROBE_TIMEOUT = 5000; // 5 seconds
+export const SIGNALING_BACKOFF_BASE = 1000; // 1 second
+export const SIGNALING_BACKOFF_MAX = 60 * 1000; // 1 minute
+
+export const SETTINGS_RELOAD_DEBOUNCE = 500; // 500 ms, editors write a file in several steps
+
+export const EVICTION_REQUEST_TIMEOUT = 10 * 1000; // 10 seconds
+export const EVICTION_CANDIDATE_LIMIT = 1000; // fragments offered per request, keeps the message small
+
+export const DRAIN_TIMEOUT = 30 * 1000; // 30 seconds
+export const DETACHED_CHECK_INTERVAL = 5000; // 5 seconds, same pace as the peer inactivity sweep
+export const DRAIN_CANCEL_REASON = "Node is shutting down, request the fragment from another node";
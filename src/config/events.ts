@@ -0,0 +1,27 @@
+/**
+ * Node-side additions to the shared signaling protocol
+ * (config/signal.socket.event.*). Values must match the signaling server.
+ */
+
+export enum NodeRequestFragmentStatus {
+    QUEUED = 'QUEUED'
+}
+
+export const FRAGMENT_CORRUPTED = 'node:fragment-corrupted';
+
+export const EVICTION_REQUEST = 'node:eviction-request';
+export const FRAGMENTS_EVICTED = 'node:fragments-evicted';
+
+export enum DownloadStatus {
+    QUEUED = 'QUEUED',
+    DOWNLOADING = 'DOWNLOADING',
+    VERIFIED = 'VERIFIED',
+    FAILED = 'FAILED'
+}
+
+export const DOWNLOAD_PROGRESS = 'node:download-progress';
+
+export const NODE_DRAINING = 'node:draining';
+
+export const REPLICATE = 'node:replicate';
+export const REPLICATION_RESULT = 'node:replication-result';
@@ -0,0 +1,203 @@
+import * as http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
+import PathUtils from '../utils/path';
+import SocketController from './socket';
+import Logger from '../utils/logger';
+
+type RouteHandler = (params: Record<string, string>) => Promise<unknown>;
+
+interface Route {
+    method: string
+    pattern: RegExp
+    keys: string[]
+    handler: RouteHandler
+}
+
+const log = Logger.get('admin');
+
+class HttpError extends Error {
+    public readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+/**
+ * Local operator API. Every request needs `Authorization: Bearer <admin.token>`,
+ * the server listens on localhost unless configured otherwise.
+ */
+export default class AdminHttpController {
+    private socketController: SocketController;
+    private server: http.Server | null = null;
+    private routes: Route[] = [];
+
+    constructor(socketController: SocketController) {
+        this.socketController = socketController;
+        this.setupRoutes();
+    }
+
+    public start(): void {
+        const config = SettingUtils.getAdminConfig();
+        if (!config.enabled || this.server) return;
+
+        if (!config.token) {
+            const token = randomBytes(24).toString('hex');
+            SettingUtils.setAdminToken(token);
+            if (SettingUtils.saveSettings()) {
+                log.info("Generated admin API token, see admin.token in the settings file");
+            } else {
+                // The token is the only way in until restart, it is not logged again
+                log.warn("Generated admin API token could not be saved, it is valid until restart", { token });
+            }
+        }
+
+        this.server = http.createServer((req, res) => {
+            this.handleRequest(req, res).catch(error => {
+                log.error("Admin API error", error);
+            });
+        });
+        this.server.on('error', error => {
+            log.error("Admin API server error", error);
+        });
+        this.server.listen(config.port, config.host, () => {
+            log.info("Admin API listening", { address: `http://${config.host}:${config.port}` });
+        });
+    }
+
+    public stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (!server) return Promise.resolve();
+
+        return new Promise(resolve => server.close(() => resolve()));
+    }
+
+    private setupRoutes(): void {
+        this.route('GET', '/fragments', async () => FragmentIndex.getAll());
+
+        this.route('GET', '/peers', async () => this.socketController.getConnections().flatMap(connection => {
+            const webrtc = connection.getWebRTCController();
+            return webrtc.getConnectedPeers().map(clientId => ({
+                server: connection.url,
+                client_id: clientId,
+                state: webrtc.getPeerConnectionState(clientId)
+            }));
+        }));
+
+        this.route('GET', '/sessions', async () => this.socketController.getConnections().flatMap(connection =>
+            connection.getWebRTCController().getTransferSessions().map(session => ({
+                server: connection.url,
+                client_id: session.clientId,
+                session_id: session.sessionId,
+                fragment_id: session.fragmentId,
+                started_at: session.start.getTime(),
+                offset: session.startOffset,
+                sent_bytes: session.sentBytes,
+                total_bytes: session.totalBytes
+            }))
+        ));
+
+        this.route('GET', '/transfers', async () => this.socketController.getConnections().map(connection => {
+            const metrics = connection.getWebRTCController().getTransferMetrics();
+            return {
+                server: connection.url,
+                sessions_completed: metrics.sessionsCompleted,
+                sessions_failed: metrics.sessionsFailed,
+                bytes_sent: metrics.bytesSent,
+                transfer_time_ms: metrics.transferTimeMs,
+                average_bytes_per_sec: metrics.averageBytesPerSec,
+                drain_waits: metrics.drainWaits,
+                drain_wait_ms: metrics.drainWaitMs
+            };
+        }));
+
+        this.route('GET', '/storage', async () => PathUtils.analyzeStoragePaths(SettingUtils.getRemotePaths()));
+
+        this.route('GET', '/servers', async () => this.socketController.getConnections().map(connection => ({
+            url: connection.url,
+            ready: connection.isReady()
+        })));
+
+        this.route('POST', '/sessions/:clientId/:sessionId/cancel', async (params) => {
+            const canceled = this.socketController.getConnections().some(connection =>
+                connection.getWebRTCController().cancelSession(params.clientId, params.sessionId, 'Canceled by node operator')
+            );
+            if (!canceled) {
+                throw new HttpError(404, `Session ${params.sessionId} not found`);
+            }
+            return { canceled: true };
+        });
+
+        this.route('POST', '/peers/:clientId/disconnect', async (params) => {
+            const connections = this.socketController.getConnections().filter(connection =>
+                connection.getWebRTCController().getPeerConnectionState(params.clientId) !== null
+            );
+            if (connections.length === 0) {
+                throw new HttpError(404, `Peer ${params.clientId} not found`);
+            }
+            connections.forEach(connection => connection.getWebRTCController().disconnectFromPeer(params.clientId));
+            return { disconnected: true };
+        });
+
+        this.route('POST', '/verify', async () => {
+            // Hashing a large store takes a while, answer right away
+            this.socketController.verifyFragments().catch(error => {
+                log.error("Fragment verification error", error);
+            });
+            return { started: true };
+        });
+    }
+
+    private route(method: string, path: string, handler: RouteHandler): void {
+        const keys: string[] = [];
+        const pattern = new RegExp('^' + path.replace(/:(\w+)/g, (_, key) => {
+            keys.push(key);
+            return '([^/]+)';
+        }) + '$');
+        this.routes.push({ method, pattern, keys, handler });
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        try {
+            if (!this.isAuthorized(req)) {
+                throw new HttpError(401, "Missing or invalid token");
+            }
+
+            const { pathname } = new URL(req.url || '/', 'http://localhost');
+            let pathMatched = false;
+            for (const route of this.routes) {
+                const match = route.pattern.exec(pathname);
+                if (!match) continue;
+                pathMatched = true;
+                if (route.method !== req.method) continue;
+
+                const params: Record<string, string> = {};
+                route.keys.forEach((key, i) => params[key] = decodeURIComponent(match[i + 1]));
+
+                this.send(res, 200, await route.handler(params));
+                return;
+            }
+
+            throw pathMatched ? new HttpError(405, "Method not allowed") : new HttpError(404, "Not found");
+        } catch (error) {
+            const status = error instanceof HttpError ? error.status : 500;
+            this.send(res, status, { error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    private isAuthorized(req: http.IncomingMessage): boolean {
+        const header = req.headers.authorization || '';
+        const expected = Buffer.from(`Bearer ${SettingUtils.getAdminConfig().token}`);
+        const actual = Buffer.from(header);
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+
+    private send(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+}
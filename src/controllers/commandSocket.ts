@@ -1,100 +1,258 @@
 import { Socket } from 'socket.io-client';
+import * as fs from 'fs';
 import { COMMAND, COMMAND_VERIFY } from '../../../config/signal.socket.event.node';
 import { NodeCommand, NodeCommandVerify, NodeResourceHash } from '../../../types/signal';
 import { NodeHttpHeader } from '../../../types/resource';
 import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
 import FileUtils from '../utils/file';
-import PathUtils from '../utils/path';
+import StorageUtils from '../utils/storage';
+import PlacementUtils from '../utils/placement';
 import DownloadUtils from '../utils/download';
+import AsyncUtils from '../utils/async';
+import MetricsUtils from '../utils/metrics';
+import Logger from '../utils/logger';
+import { DOWNLOAD_PROGRESS_INTERVAL } from '../config/constants';
+import { DOWNLOAD_PROGRESS, DownloadStatus } from '../config/events';
+import { DownloadRequest, DownloadFailure, DownloadConfig, DownloadProgress } from '../types';
+import { DownloadError, addOrigin, indexFragment } from './fragmentIntake';
 
 export default class CommandSocketController {
     private socket: Socket;
+    private origin: string;
+    private log: Logger;
 
-    constructor(socket: Socket) {
+    constructor(socket: Socket, origin: string) {
         this.socket = socket;
+        this.origin = origin;
+        this.log = Logger.get('command').child({ server: origin });
         this.handleCommand();
     }
 
     private handleCommand(): void {
         this.socket.on(COMMAND, async (command: NodeCommand) => {
             if (command.delete) {
-                console.log("Received delete command:", command.delete);
-                this.handleDelete(command.delete);
+                this.log.info("Received delete command", { fragments: command.delete });
+                await this.handleDelete(command.delete);
             }
             if (command.download) {
-                console.log("Received download command:", command.download.length);
+                this.log.info("Received download command", { count: command.download.length });
                 await this.handleDownload(command.download);
             }
         });
     }
 
-    private handleDelete(fragmentIds: string[]): void {
+    /**
+     * Fragments also placed by another signaling server only lose this origin,
+     * the file is deleted once no origin needs it anymore
+     */
+    private async handleDelete(fragmentIds: string[]): Promise<void> {
         let paths: string[] = [];
-        fragmentIds.forEach(fragmentId => {
-            const path = SettingUtils.getFragmentPath(fragmentId);
-            if (path) {
-                paths.push(path);
-                SettingUtils.removeFragmentPath(fragmentId);
-            } else {
-                console.warn("Delete fragment path not found:", fragmentId);
-            }
-        });
 
         try {
-            FileUtils.deleteFiles(paths);
+            // Drop the index entries first so a crash never leaves entries pointing at deleted files
+            await FragmentIndex.transaction(tx => {
+                fragmentIds.forEach(fragmentId => {
+                    const record = FragmentIndex.get(fragmentId);
+                    if (!record) {
+                        this.log.warn("Delete fragment path not found", { fragment_id: fragmentId });
+                        return;
+                    }
+
+                    const otherOrigins = (record.origins || []).filter(origin => origin !== this.origin);
+                    if (otherOrigins.length > 0) {
+                        tx.put({ ...record, origins: otherOrigins });
+                    } else {
+                        paths.push(record.path);
+                        tx.remove(fragmentId);
+                    }
+                });
+            });
+            await StorageUtils.deleteAll(paths);
         } catch (error) {
-            console.error("Error deleting files:", error);
+            this.log.error("Error deleting files", error);
         }
     }
 
-    private async handleDownload(urls: string[]): Promise<void> {
+    private async handleDownload(items: Array<string | DownloadRequest>): Promise<void> {
         const appInfo = SettingUtils.getAppInfo()!;
         const nodeInfo: NodeHttpHeader = {
             "Node-Id": appInfo.id,
             "Node-Token": appInfo.auth_token
         };
         let downloadResults: NodeResourceHash[] = [];
+        let downloadFailures: DownloadFailure[] = [];
 
-        for (const url of urls) {
+        const downloadConfig = SettingUtils.getDownloadConfig();
+        const requests: DownloadRequest[] = items.map(item => typeof item === 'string' ? { url: item } : item);
+        requests.forEach(request => this.emitProgress({ url: request.url, status: DownloadStatus.QUEUED }));
+
+        await AsyncUtils.mapLimit(requests, downloadConfig.concurrency, async request => {
             try {
-                const fileHead = await DownloadUtils.head(url, nodeInfo);
-                if (!fileHead['content-length']) {
-                    throw new Error("Content-Length header is missing in the response");
-                }
-                // Extract filename from Content-Disposition header
-                let fileName = '';
-                if (fileHead['content-disposition']) {
-                    const filenameMatch = fileHead['content-disposition'].match(/filename="([^"]+)"/);
-                    if (filenameMatch && filenameMatch[1]) {
-                        fileName = filenameMatch[1];
-                    } else {
-                        throw new Error("Filename not found in Content-Disposition header");
-                    }
-                } else {
-                    throw new Error("Content-Disposition header is missing in the response");
-                }
+                const result = await this.downloadFragment(request, nodeInfo, downloadConfig);
+                downloadResults.push(result);
+                MetricsUtils.downloads.inc(1, { result: 'verified' });
+                this.emitProgress({ url: request.url, fragment_id: result.fragment_id, status: DownloadStatus.VERIFIED });
+            } catch (error) {
+                const failure: DownloadFailure = error instanceof DownloadError
+                    ? { url: request.url, fragment_id: error.fragmentId, reason: error.reason, message: error.message }
+                    : { url: request.url, reason: 'download_failed', message: error instanceof Error ? error.message : String(error) };
+                this.log.error("Error downloading fragment", error, { url: request.url, fragment_id: failure.fragment_id, reason: failure.reason });
+                downloadFailures.push(failure);
+                MetricsUtils.downloads.inc(1, { result: failure.reason });
+                // Reported right away so the server can reassign the fragment before the batch ends
+                this.emitProgress({ ...failure, status: DownloadStatus.FAILED });
+            }
+        });
+
+        const res: NodeCommandVerify & { failed: DownloadFailure[] } = {
+            result: downloadResults,
+            failed: downloadFailures
+        };
+        this.socket.emit(COMMAND_VERIFY, res);
+    }
+
+    /**
+     * Downloads one fragment and only adds it to the index once its size and,
+     * when the server supplied one, its hash have been verified
+     */
+    private async downloadFragment(
+        request: DownloadRequest,
+        nodeInfo: NodeHttpHeader,
+        downloadConfig: DownloadConfig
+    ): Promise<NodeResourceHash> {
+        const { url } = request;
+
+        let fileHead;
+        try {
+            fileHead = await DownloadUtils.head(url, nodeInfo);
+        } catch (error) {
+            throw new DownloadError('head_failed', error instanceof Error ? error.message : String(error));
+        }
+
+        if (!fileHead['content-length']) {
+            throw new DownloadError('missing_headers', "Content-Length header is missing in the response");
+        }
+        // Extract filename from Content-Disposition header
+        let fileName = '';
+        if (fileHead['content-disposition']) {
+            const filenameMatch = fileHead['content-disposition'].match(/filename="([^"]+)"/);
+            if (filenameMatch && filenameMatch[1]) {
+                fileName = filenameMatch[1];
+            } else {
+                throw new DownloadError('missing_headers', "Filename not found in Content-Disposition header");
+            }
+        } else {
+            throw new DownloadError('missing_headers', "Content-Disposition header is missing in the response");
+        }
 
-                const contentLength = parseInt(fileHead['content-length'], 10);
+        const contentLength = parseInt(fileHead['content-length'], 10);
+        if (Number.isNaN(contentLength)) {
+            throw new DownloadError('missing_headers', "Content-Length header is missing in the response", fileName);
+        }
+        if (request.size !== undefined && contentLength !== request.size) {
+            throw new DownloadError(
+                'size_mismatch',
+                `Server announced ${contentLength} bytes, expected ${request.size}`,
+                fileName
+            );
+        }
 
-                const freePath = await PathUtils.findMostFreePath(SettingUtils.getRemotePaths());
+        // Already stored for another signaling server, only record the new origin
+        const existing = FragmentIndex.get(fileName);
+        if (
+            existing && existing.hash && existing.size === contentLength &&
+            (!request.hash || request.hash.toLowerCase() === existing.hash) &&
+            await StorageUtils.exists(existing.path)
+        ) {
+            try {
+                await FragmentIndex.add({ ...existing, origins: addOrigin(existing.origins, this.origin) });
+            } catch (error) {
+                throw new DownloadError('storage_failed', error instanceof Error ? error.message : String(error), fileName);
+            }
+            return {
+                fragment_id: fileName,
+                hash: existing.hash
+            };
+        }
 
-                if (freePath && contentLength && freePath.availableSpace >= contentLength) {
-                    const filePath = await DownloadUtils.stream(url, freePath.path, fileName, nodeInfo);
+        // Fragments for object storage are staged on disk first, so both need room
+        if (StorageUtils.usesObjectStorage() && await StorageUtils.getBackend().getFreeSpace() < contentLength) {
+            throw new DownloadError('no_space', `Not enough space for ${contentLength} bytes in object storage`, fileName);
+        }
+        // An empty fragment still needs a path, reserve(0) picks any path with room left
+        const reservation = await PlacementUtils.reserve(contentLength);
+        if (!reservation) {
+            throw new DownloadError('no_space', `Not enough space for ${contentLength} bytes`, fileName);
+        }
 
-                    SettingUtils.addFragmentPath(fileName, filePath);
+        try {
+            this.emitProgress({ url, fragment_id: fileName, status: DownloadStatus.DOWNLOADING, bytes: 0, total: contentLength });
+            let lastProgressAt = Date.now();
 
-                    const fileHash = FileUtils.hashFile(filePath);
-                    downloadResults.push({
-                        fragment_id: fileName,
-                        hash: fileHash || ''
-                    });
-                }
+            let filePath: string;
+            try {
+                filePath = await DownloadUtils.stream(url, reservation.path, fileName, nodeInfo, {
+                    retries: downloadConfig.retries,
+                    retryBackoffMs: downloadConfig.retry_backoff_ms,
+                    expectedSize: contentLength,
+                    onProgress: (bytes, total) => {
+                        const now = Date.now();
+                        if (now - lastProgressAt < DOWNLOAD_PROGRESS_INTERVAL && bytes !== total) return;
+                        lastProgressAt = now;
+                        this.emitProgress({ url, fragment_id: fileName, status: DownloadStatus.DOWNLOADING, bytes, total });
+                    }
+                });
             } catch (error) {
-                console.error("Error downloading file:", error);
+                throw new DownloadError('download_failed', error instanceof Error ? error.message : String(error), fileName);
             }
+
+            const { size } = await fs.promises.stat(filePath);
+            if (size !== contentLength) {
+                FileUtils.deleteFile(filePath);
+                throw new DownloadError('size_mismatch', `Downloaded ${size} bytes, expected ${contentLength}`, fileName);
+            }
+
+            const fileHash = await FileUtils.hashFile(filePath);
+            if (!fileHash) {
+                FileUtils.deleteFile(filePath);
+                throw new DownloadError('storage_failed', "Downloaded file could not be hashed", fileName);
+            }
+            if (request.hash && request.hash.toLowerCase() !== fileHash) {
+                FileUtils.deleteFile(filePath);
+                throw new DownloadError('hash_mismatch', `Hash ${fileHash} does not match expected ${request.hash}`, fileName);
+            }
+
+            try {
+                filePath = await StorageUtils.commit(fileName, filePath, size);
+            } catch (error) {
+                throw new DownloadError('storage_failed', error instanceof Error ? error.message : String(error), fileName);
+            }
+
+            try {
+                await indexFragment({
+                    id: fileName,
+                    path: filePath,
+                    size,
+                    hash: fileHash,
+                    created_at: Date.now()
+                }, this.origin);
+            } catch (error) {
+                await StorageUtils.delete(filePath);
+                throw new DownloadError('storage_failed', error instanceof Error ? error.message : String(error), fileName);
+            }
+
+            return {
+                fragment_id: fileName,
+                hash: fileHash
+            };
+        } finally {
+            reservation.release();
         }
+    }
 
-        const res: NodeCommandVerify = { result: downloadResults };
-        this.socket.emit(COMMAND_VERIFY, res);
+    private emitProgress(progress: Omit<DownloadProgress, 'timestamp'>): void {
+        const event: DownloadProgress = { ...progress, timestamp: Date.now() };
+        this.socket.emit(DOWNLOAD_PROGRESS, event);
     }
 }
@@ -0,0 +1,105 @@
+import { ServerHealth } from '../types';
+import { SIGNALING_PROBE_TIMEOUT, SIGNALING_BACKOFF_BASE, SIGNALING_BACKOFF_MAX } from '../config/constants';
+import Logger from '../utils/logger';
+
+const log = Logger.get('signaling');
+
+// Weight of the newest latency sample in the moving average
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Keeps track of how healthy each signaling server is and decides which
+ * server to connect to next and how long to wait before doing so.
+ */
+export default class ConnectionSupervisor {
+    private health: Map<string, ServerHealth> = new Map();
+    private attempt = 0;
+
+    /**
+     * Probes every server and returns the one to connect to: reachable servers first,
+     * then the fewest recent failures, then the lowest smoothed latency
+     */
+    public async selectServer(servers: ReadonlyArray<string>): Promise<string> {
+        // Forget servers that were removed from the configuration
+        Array.from(this.health.keys())
+            .filter(url => !servers.includes(url))
+            .forEach(url => this.health.delete(url));
+
+        const reachable = await Promise.all(servers.map(url => this.probe(url)));
+
+        const ranked = servers
+            .map((url, i) => ({ health: this.getHealth(url), reachable: reachable[i] }))
+            .sort((a, b) =>
+                Number(b.reachable) - Number(a.reachable) ||
+                a.health.failures - b.health.failures ||
+                (a.health.latency_ms ?? Infinity) - (b.health.latency_ms ?? Infinity)
+            );
+        return ranked[0].health.url;
+    }
+
+    public recordFailure(url: string): void {
+        const health = this.getHealth(url);
+        health.failures++;
+        health.last_failure_at = Date.now();
+    }
+
+    /**
+     * Called once the node is connected and signed in
+     */
+    public recordSuccess(url: string): void {
+        this.getHealth(url).failures = 0;
+        this.attempt = 0;
+    }
+
+    /**
+     * Exponential backoff with full jitter, so nodes don't reconnect in lockstep
+     * after a signaling server restart
+     */
+    public nextDelay(): number {
+        const ceiling = Math.min(SIGNALING_BACKOFF_MAX, SIGNALING_BACKOFF_BASE * 2 ** this.attempt);
+        this.attempt++;
+        return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+    }
+
+    public getHealthReport(): ServerHealth[] {
+        return Array.from(this.health.values()).map(health => ({ ...health }));
+    }
+
+    /**
+     * Requests a socket.io polling handshake; any answer below 500 means the server is up
+     */
+    private async probe(url: string): Promise<boolean> {
+        const probeUrl = new URL('/socket.io/', url);
+        probeUrl.searchParams.set('EIO', '4');
+        probeUrl.searchParams.set('transport', 'polling');
+
+        const startTime = Date.now();
+        try {
+            const res = await fetch(probeUrl, { signal: AbortSignal.timeout(SIGNALING_PROBE_TIMEOUT) });
+            await res.body?.cancel();
+            if (res.status >= 500) {
+                throw new Error(`HTTP ${res.status}`);
+            }
+
+            const latency = Date.now() - startTime;
+            const health = this.getHealth(url);
+            health.latency_ms = health.latency_ms === undefined
+                ? latency
+                : Math.round(health.latency_ms * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+            return true;
+        } catch (error) {
+            log.warn("Signaling server is unreachable", { server: url, error: error instanceof Error ? error.message : String(error) });
+            this.recordFailure(url);
+            return false;
+        }
+    }
+
+    private getHealth(url: string): ServerHealth {
+        let health = this.health.get(url);
+        if (!health) {
+            health = { url, failures: 0 };
+            this.health.set(url, health);
+        }
+        return health;
+    }
+}
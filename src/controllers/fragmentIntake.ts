@@ -0,0 +1,42 @@
+import FragmentIndex from '../utils/fragmentIndex';
+import StorageUtils from '../utils/storage';
+import { FragmentRecord, DownloadFailureReason, ReplicationFailureReason } from '../types';
+
+export class DownloadError extends Error {
+    public readonly reason: DownloadFailureReason;
+    public readonly fragmentId?: string;
+
+    constructor(reason: DownloadFailureReason, message: string, fragmentId?: string) {
+        super(message);
+        this.reason = reason;
+        this.fragmentId = fragmentId;
+    }
+}
+
+export class ReplicationError extends Error {
+    public readonly reason: ReplicationFailureReason;
+
+    constructor(reason: ReplicationFailureReason, message: string) {
+        super(message);
+        this.reason = reason;
+    }
+}
+
+export function addOrigin(origins: string[] | undefined, origin: string): string[] | undefined {
+    // Fragments of unknown origin stay shared with every server
+    if (!origins) return undefined;
+    return origins.includes(origin) ? origins : [...origins, origin];
+}
+
+/**
+ * Indexes a newly stored fragment for `origin`. A previous record of the same
+ * fragment keeps its other origins, and its file is deleted when the new one
+ * was stored somewhere else.
+ */
+export async function indexFragment(record: Omit<FragmentRecord, 'origins'>, origin: string): Promise<void> {
+    const previous = FragmentIndex.get(record.id);
+    await FragmentIndex.add({ ...record, origins: previous ? addOrigin(previous.origins, origin) : [origin] });
+    if (previous && previous.path !== record.path) {
+        await StorageUtils.delete(previous.path);
+    }
+}
@@ -0,0 +1,84 @@
+import * as http from 'http';
+import SettingUtils from '../utils/setting';
+import SystemUtils from '../utils/system';
+import FragmentIndex from '../utils/fragmentIndex';
+import MetricsUtils from '../utils/metrics';
+import SocketController from './socket';
+import Logger from '../utils/logger';
+
+const log = Logger.get('metrics');
+
+/**
+ * Serves the node's metrics for Prometheus to scrape
+ */
+export default class MetricsHttpController {
+    private socketController: SocketController;
+    private server: http.Server | null = null;
+
+    constructor(socketController: SocketController) {
+        this.socketController = socketController;
+        MetricsUtils.addCollector(this.collectNodeState);
+        MetricsUtils.addCollector(this.collectSystemInfo);
+    }
+
+    public start(): void {
+        const config = SettingUtils.getMetricsConfig();
+        if (!config.enabled || this.server) return;
+
+        this.server = http.createServer((req, res) => {
+            const { pathname } = new URL(req.url || '/', 'http://localhost');
+            if (req.method !== 'GET' || pathname !== config.path) {
+                res.writeHead(404);
+                res.end();
+                return;
+            }
+
+            MetricsUtils.render().then(body => {
+                res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+                res.end(body);
+            }).catch(error => {
+                log.error("Error rendering metrics", error);
+                res.writeHead(500);
+                res.end();
+            });
+        });
+        this.server.on('error', error => {
+            log.error("Metrics server error", error);
+        });
+        this.server.listen(config.port, config.host, () => {
+            log.info("Metrics available", { address: `http://${config.host}:${config.port}${config.path}` });
+        });
+    }
+
+    public stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (!server) return Promise.resolve();
+
+        return new Promise(resolve => server.close(() => resolve()));
+    }
+
+    private collectNodeState = (): void => {
+        const connections = this.socketController.getConnections();
+        const { active, queued } = this.socketController.getTransferLoad();
+
+        MetricsUtils.peers.set(connections.reduce(
+            (total, connection) => total + connection.getWebRTCController().getConnectedPeers().length, 0
+        ));
+        MetricsUtils.activeSessions.set(active);
+        MetricsUtils.queuedSessions.set(queued);
+        MetricsUtils.signalingConnections.set(connections.filter(connection => connection.isReady()).length);
+        MetricsUtils.fragments.set(FragmentIndex.size());
+    }
+
+    private collectSystemInfo = async (): Promise<void> => {
+        const systemInfo = await SystemUtils.getSystemInfo(SettingUtils.getRemotePaths());
+
+        MetricsUtils.cpuUsage.set(systemInfo.cpu_usage);
+        MetricsUtils.ramAvailable.set(systemInfo.ram_available);
+        MetricsUtils.storageAvailable.reset();
+        systemInfo.filesystem_usage.forEach(info => {
+            MetricsUtils.storageAvailable.set(info.availableSpace, { path: info.path });
+        });
+    }
+}
@@ -0,0 +1,199 @@
+import { Socket } from 'socket.io-client';
+import * as path from 'path';
+import { EvictionRequest, EvictionResponse, FileSystemInfo, FragmentEvictionReport, FragmentRecord, StoragePath } from '../types';
+import { EVICTION_CANDIDATE_LIMIT, EVICTION_REQUEST_TIMEOUT } from '../config/constants';
+import { EVICTION_REQUEST, FRAGMENTS_EVICTED } from '../config/events';
+import SettingUtils from '../utils/setting';
+import PathUtils from '../utils/path';
+import StorageUtils from '../utils/storage';
+import FragmentIndex from '../utils/fragmentIndex';
+import MetricsUtils from '../utils/metrics';
+import Logger from '../utils/logger';
+import { isLocalLocation } from '../storage/location';
+
+const log = Logger.get('quota');
+
+interface Overage {
+    reason: FragmentEvictionReport['reason']
+    bytes: number
+    count: number
+}
+
+/**
+ * Keeps every storage path within its threshold and limits. Other software can
+ * fill a disk too, so the paths are checked periodically and fragments are
+ * evicted until the path is back below its threshold, either the ones the
+ * origin servers can do without or the least recently served ones.
+ */
+export default class QuotaSocketController {
+    // Sockets of the ready signaling servers by url
+    private getSockets: () => Map<string, Socket>;
+    // Fragments being served or still resumable, never evicted
+    private getBusyFragments: () => Set<string>;
+    private checkInterval: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(getSockets: () => Map<string, Socket>, getBusyFragments: () => Set<string>) {
+        this.getSockets = getSockets;
+        this.getBusyFragments = getBusyFragments;
+    }
+
+    public start(): void {
+        const config = SettingUtils.getQuotaConfig();
+        if (!config.enabled || this.checkInterval) return;
+
+        this.checkInterval = setInterval(() => {
+            this.enforce().catch(error => {
+                log.error("Quota check error", error);
+            });
+        }, config.interval_minutes * 60 * 1000);
+        log.info("Quota checks scheduled", { interval_minutes: config.interval_minutes, policy: config.policy });
+    }
+
+    public stop(): void {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+    }
+
+    /**
+     * Checks every storage path once and evicts fragments from those over quota
+     */
+    public async enforce(): Promise<void> {
+        if (this.running) {
+            log.warn("Quota check already in progress, skipping");
+            return;
+        }
+        this.running = true;
+
+        try {
+            const storagePaths = SettingUtils.getRemotePaths();
+            const analyzed = await PathUtils.analyzeStoragePaths(storagePaths);
+            for (let i = 0; i < storagePaths.length; i++) {
+                await this.enforcePath(storagePaths[i], analyzed[i]);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async enforcePath(storagePath: StoragePath, info: FileSystemInfo): Promise<void> {
+        const records = FragmentIndex.getAll()
+            .filter(record => isLocalLocation(record.path) && path.dirname(record.path) === storagePath.path);
+        const overage = this.getOverage(storagePath, info, records);
+        if (!overage) return;
+
+        const { policy } = SettingUtils.getQuotaConfig();
+        log.warn("Storage path over quota", { path: storagePath.path, reason: overage.reason, bytes: overage.bytes, fragments: overage.count, policy });
+
+        const busy = this.getBusyFragments();
+        const candidates = records
+            .filter(record => !busy.has(record.id))
+            .sort((a, b) => (a.last_served_at || a.created_at) - (b.last_served_at || b.created_at))
+            .slice(0, EVICTION_CANDIDATE_LIMIT);
+        const allowed = policy === 'lru' ? candidates : await this.askServers(candidates, overage.bytes);
+        // A transfer may have started while the servers were deciding
+        const busyNow = this.getBusyFragments();
+
+        const evicted: FragmentRecord[] = [];
+        let freed = 0;
+        for (const record of allowed) {
+            if (freed >= overage.bytes && evicted.length >= overage.count) break;
+            if (busyNow.has(record.id)) continue;
+            evicted.push(record);
+            freed += record.size;
+        }
+
+        if (evicted.length > 0) {
+            await this.evict(evicted, overage.reason);
+        }
+        if (freed < overage.bytes || evicted.length < overage.count) {
+            log.warn("Could not free enough space", { path: storagePath.path, needed_bytes: overage.bytes, freed_bytes: freed, evicted: evicted.length });
+        }
+    }
+
+    /**
+     * How far the path is over its threshold, max_size or max_fragments, undefined when it is not
+     */
+    private getOverage(storagePath: StoragePath, info: FileSystemInfo, records: FragmentRecord[]): Overage | undefined {
+        const { headroom_percent } = SettingUtils.getQuotaConfig();
+        const storedBytes = records.reduce((total, record) => total + record.size, 0);
+
+        if (info.used > info.size * storagePath.threshold / 100) {
+            const target = info.size * Math.max(0, storagePath.threshold - headroom_percent) / 100;
+            return { reason: 'threshold', bytes: Math.ceil(info.used - target), count: 0 };
+        }
+        if (storagePath.max_size !== undefined && storedBytes > storagePath.max_size) {
+            return { reason: 'max_size', bytes: storedBytes - storagePath.max_size, count: 0 };
+        }
+        if (storagePath.max_fragments !== undefined && records.length > storagePath.max_fragments) {
+            return { reason: 'max_fragments', bytes: 0, count: records.length - storagePath.max_fragments };
+        }
+        return undefined;
+    }
+
+    /**
+     * Offers the candidates to their origin servers. A fragment may only go when
+     * every server it was stored for agrees, servers that do not answer agree to nothing.
+     */
+    private async askServers(candidates: FragmentRecord[], bytesNeeded: number): Promise<FragmentRecord[]> {
+        const sockets = this.getSockets();
+        const approvals = new Map<string, Set<string>>();
+
+        await Promise.all(Array.from(sockets).map(async ([url, socket]) => {
+            const owned = candidates.filter(record => !record.origins || record.origins.includes(url));
+            if (owned.length === 0) return;
+
+            const request: EvictionRequest = {
+                bytes_needed: bytesNeeded,
+                fragments: owned.map(record => ({
+                    fragment_id: record.id,
+                    size: record.size,
+                    last_served_at: record.last_served_at
+                }))
+            };
+            try {
+                const response: EvictionResponse = await socket.timeout(EVICTION_REQUEST_TIMEOUT).emitWithAck(EVICTION_REQUEST, request);
+                approvals.set(url, new Set(response?.fragment_ids || []));
+            } catch (error) {
+                log.warn("Signaling server did not answer eviction request", { server: url, error: error instanceof Error ? error.message : String(error) });
+            }
+        }));
+
+        return candidates.filter(record => {
+            // Fragments of unknown origin are shared with every server
+            const owners = record.origins || Array.from(sockets.keys());
+            return owners.length > 0 && owners.every(url => approvals.get(url)?.has(record.id));
+        });
+    }
+
+    private async evict(records: FragmentRecord[], reason: FragmentEvictionReport['reason']): Promise<void> {
+        // Drop the index entries first so a crash never leaves entries pointing at deleted files
+        try {
+            await FragmentIndex.remove(records.map(record => record.id));
+        } catch (error) {
+            log.error("Error removing evicted fragments from index", error);
+            return;
+        }
+        await StorageUtils.deleteAll(records.map(record => record.path));
+        PathUtils.invalidateFsSize();
+
+        const freedBytes = records.reduce((total, record) => total + record.size, 0);
+        MetricsUtils.evictions.inc(records.length, { reason });
+        log.info("Evicted fragments", { count: records.length, freed_bytes: freedBytes, reason });
+
+        this.getSockets().forEach((socket, url) => {
+            const owned = records.filter(record => !record.origins || record.origins.includes(url));
+            if (owned.length === 0) return;
+
+            const report: FragmentEvictionReport = {
+                fragment_ids: owned.map(record => record.id),
+                freed_bytes: owned.reduce((total, record) => total + record.size, 0),
+                reason,
+                evicted_at: Date.now()
+            };
+            socket.emit(FRAGMENTS_EVICTED, report);
+        });
+    }
+}
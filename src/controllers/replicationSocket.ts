@@ -0,0 +1,184 @@
+import { Socket } from 'socket.io-client';
+import * as path from 'path';
+import { NodeResourceHash } from '../../../types/signal';
+import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
+import StorageUtils from '../utils/storage';
+import PlacementUtils from '../utils/placement';
+import AsyncUtils from '../utils/async';
+import MetricsUtils from '../utils/metrics';
+import Logger from '../utils/logger';
+import { REPLICATE, REPLICATION_RESULT } from '../config/events';
+import { ReplicationRequest, ReplicationFailure } from '../types';
+import WebRTCSocketController from './webRTCSocket';
+import { ReceiveError } from './webrtc/FragmentReceiver';
+import { ReplicationError, addOrigin, indexFragment } from './fragmentIntake';
+
+/**
+ * Pulls fragments straight from other nodes over WebRTC when the signaling
+ * server asks for it, so replicas do not have to come from the origin server
+ */
+export default class ReplicationSocketController {
+    private socket: Socket;
+    private origin: string;
+    private webrtcController: WebRTCSocketController;
+    // Replications in flight per source node, the connection is closed when none are left
+    private sourceUsers: Map<string, number> = new Map();
+    private log: Logger;
+
+    constructor(socket: Socket, origin: string, webrtcController: WebRTCSocketController) {
+        this.socket = socket;
+        this.origin = origin;
+        this.webrtcController = webrtcController;
+        this.log = Logger.get('replication').child({ server: origin });
+        this.handleReplicate();
+    }
+
+    private handleReplicate(): void {
+        this.socket.on(REPLICATE, async (requests: ReplicationRequest[]) => {
+            if (!Array.isArray(requests) || requests.length === 0) return;
+            this.log.info("Received replication command", { count: requests.length });
+            await this.handleReplication(requests);
+        });
+    }
+
+    private async handleReplication(requests: ReplicationRequest[]): Promise<void> {
+        let results: NodeResourceHash[] = [];
+        let failures: ReplicationFailure[] = [];
+
+        const downloadConfig = SettingUtils.getDownloadConfig();
+        await AsyncUtils.mapLimit(requests, downloadConfig.concurrency, async request => {
+            try {
+                const result = await this.replicateFragment(request);
+                results.push(result);
+                MetricsUtils.replications.inc(1, { result: 'verified' });
+            } catch (error) {
+                const failure: ReplicationFailure = {
+                    fragment_id: request.fragment_id,
+                    source: request.source,
+                    reason: error instanceof ReplicationError ? error.reason : 'transfer_failed',
+                    message: error instanceof Error ? error.message : String(error)
+                };
+                this.log.error("Error replicating fragment", error, {
+                    fragment_id: failure.fragment_id,
+                    peer_id: failure.source,
+                    reason: failure.reason
+                });
+                failures.push(failure);
+                MetricsUtils.replications.inc(1, { result: failure.reason });
+            }
+        });
+
+        this.socket.emit(REPLICATION_RESULT, { result: results, failed: failures });
+    }
+
+    /**
+     * Receives one fragment from the source node and only adds it to the index
+     * once its size, its hash and the sender's digest have been verified
+     */
+    private async replicateFragment(request: ReplicationRequest): Promise<NodeResourceHash> {
+        const { fragment_id: fragmentId, source } = request;
+        if (!fragmentId || path.basename(fragmentId) !== fragmentId) {
+            throw new ReplicationError('storage_failed', `Invalid fragment id "${fragmentId}"`);
+        }
+
+        // Already stored for another signaling server, only record the new origin
+        const existing = FragmentIndex.get(fragmentId);
+        if (
+            existing && existing.hash &&
+            (request.size === undefined || request.size === existing.size) &&
+            (!request.hash || request.hash.toLowerCase() === existing.hash) &&
+            await StorageUtils.exists(existing.path)
+        ) {
+            try {
+                await FragmentIndex.add({ ...existing, origins: addOrigin(existing.origins, this.origin) });
+            } catch (error) {
+                throw new ReplicationError('storage_failed', error instanceof Error ? error.message : String(error));
+            }
+            return {
+                fragment_id: fragmentId,
+                hash: existing.hash
+            };
+        }
+
+        // Fragments for object storage are staged on disk first, so both need room
+        if (StorageUtils.usesObjectStorage() && await StorageUtils.getBackend().getFreeSpace() < (request.size || 0)) {
+            throw new ReplicationError('no_space', `Not enough space for ${request.size} bytes in object storage`);
+        }
+        const reservation = await PlacementUtils.reserve(request.size || 0);
+        if (!reservation) {
+            throw new ReplicationError('no_space', request.size === undefined
+                ? "No storage path has space left"
+                : `Not enough space for ${request.size} bytes`);
+        }
+
+        this.acquireSource(source);
+        try {
+            let receiver;
+            try {
+                receiver = await this.webrtcController.connectToPeer(source);
+            } catch (error) {
+                throw new ReplicationError('peer_unreachable', error instanceof Error ? error.message : String(error));
+            }
+
+            this.log.info("Replicating fragment", { fragment_id: fragmentId, peer_id: source });
+            let received;
+            try {
+                received = await receiver.receive({
+                    fragmentId,
+                    destination: path.join(reservation.path, fragmentId),
+                    expectedHash: request.hash,
+                    expectedSize: request.size,
+                    maxBytes: reservation.size || reservation.available
+                });
+            } catch (error) {
+                if (error instanceof ReceiveError) {
+                    throw new ReplicationError(error.reason, error.message);
+                }
+                throw new ReplicationError('transfer_failed', error instanceof Error ? error.message : String(error));
+            }
+
+            let location: string;
+            try {
+                location = await StorageUtils.commit(fragmentId, received.path, received.size);
+            } catch (error) {
+                throw new ReplicationError('storage_failed', error instanceof Error ? error.message : String(error));
+            }
+
+            try {
+                await indexFragment({
+                    id: fragmentId,
+                    path: location,
+                    size: received.size,
+                    hash: received.hash,
+                    created_at: Date.now()
+                }, this.origin);
+            } catch (error) {
+                await StorageUtils.delete(location);
+                throw new ReplicationError('storage_failed', error instanceof Error ? error.message : String(error));
+            }
+
+            return {
+                fragment_id: fragmentId,
+                hash: received.hash
+            };
+        } finally {
+            this.releaseSource(source);
+            reservation.release();
+        }
+    }
+
+    private acquireSource(source: string): void {
+        this.sourceUsers.set(source, (this.sourceUsers.get(source) || 0) + 1);
+    }
+
+    private releaseSource(source: string): void {
+        const users = (this.sourceUsers.get(source) || 1) - 1;
+        if (users > 0) {
+            this.sourceUsers.set(source, users);
+            return;
+        }
+        this.sourceUsers.delete(source);
+        this.webrtcController.disconnectFromPeer(source);
+    }
+}
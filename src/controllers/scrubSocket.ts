@@ -0,0 +1,128 @@
+import { Socket } from 'socket.io-client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FragmentCorruptionReport, FragmentRecord } from '../types';
+import { QUARANTINE_PATH_NAME } from '../config/constants';
+import { FRAGMENT_CORRUPTED } from '../config/events';
+import SettingUtils from '../utils/setting';
+import FileUtils from '../utils/file';
+import StorageUtils from '../utils/storage';
+import FragmentIndex from '../utils/fragmentIndex';
+import HashCache from '../utils/hashCache';
+import Logger from '../utils/logger';
+import { isLocalLocation } from '../storage/location';
+
+const log = Logger.get('scrub');
+
+/**
+ * Periodically re-reads every stored fragment, compares its BLAKE2b hash with the
+ * hash recorded when it was stored, and quarantines fragments that no longer match.
+ */
+export default class ScrubSocketController {
+    // Sockets of the signaling servers that should hear about a fragment
+    private resolveSockets: (record: FragmentRecord) => Socket[];
+    private scrubInterval: NodeJS.Timeout | null = null;
+    private running = false;
+
+    constructor(resolveSockets: (record: FragmentRecord) => Socket[]) {
+        this.resolveSockets = resolveSockets;
+    }
+
+    public start(): void {
+        const config = SettingUtils.getScrubConfig();
+        if (!config.enabled || this.scrubInterval) return;
+
+        const intervalMs = config.interval_hours * 60 * 60 * 1000;
+        this.scrubInterval = setInterval(() => {
+            this.scrub().catch(error => {
+                log.error("Scrub error", error);
+            });
+        }, intervalMs);
+        log.info("Fragment scrubbing scheduled", { interval_hours: config.interval_hours });
+    }
+
+    public stop(): void {
+        if (this.scrubInterval) {
+            clearInterval(this.scrubInterval);
+            this.scrubInterval = null;
+        }
+    }
+
+    /**
+     * Runs one pass over the store, least recently scrubbed fragments first
+     */
+    public async scrub(): Promise<void> {
+        if (this.running) {
+            log.warn("Scrub already in progress, skipping");
+            return;
+        }
+        this.running = true;
+
+        const { rate_bytes_per_sec } = SettingUtils.getScrubConfig();
+        const records = FragmentIndex.getAll()
+            .filter(record => record.hash)
+            .sort((a, b) => (a.last_scrubbed_at || 0) - (b.last_scrubbed_at || 0));
+
+        log.info("Scrubbing fragments", { count: records.length });
+        let corrupted = 0;
+
+        try {
+            for (const record of records) {
+                // The fragment may have been deleted while the pass was running
+                if (FragmentIndex.get(record.id) !== record || !await StorageUtils.exists(record.path)) continue;
+
+                const actualHash = await StorageUtils.hash(record.path, false, rate_bytes_per_sec);
+                if (!actualHash) continue;
+
+                if (actualHash !== record.hash) {
+                    corrupted++;
+                    await this.quarantine(record, actualHash);
+                } else {
+                    FragmentIndex.markScrubbed(record.id);
+                }
+            }
+        } finally {
+            this.running = false;
+        }
+
+        log.info("Scrub finished", { checked: records.length, corrupted });
+    }
+
+    private async quarantine(record: FragmentRecord, actualHash: string): Promise<void> {
+        log.error("Fragment is corrupted", undefined, { fragment_id: record.id, expected_hash: record.hash, actual_hash: actualHash });
+
+        try {
+            await FragmentIndex.remove([record.id]);
+        } catch (error) {
+            log.error("Error removing corrupted fragment from index", error, { fragment_id: record.id });
+        }
+
+        if (isLocalLocation(record.path)) {
+            await this.moveToQuarantine(record);
+        } else {
+            // Object storage has no quarantine directory
+            await StorageUtils.delete(record.path);
+        }
+
+        const report: FragmentCorruptionReport = {
+            fragment_id: record.id,
+            expected_hash: record.hash!,
+            actual_hash: actualHash,
+            size: record.size,
+            detected_at: Date.now()
+        };
+        this.resolveSockets(record).forEach(socket => socket.emit(FRAGMENT_CORRUPTED, report));
+    }
+
+    private async moveToQuarantine(record: FragmentRecord): Promise<void> {
+        const quarantineDir = path.join(path.dirname(path.dirname(record.path)), QUARANTINE_PATH_NAME);
+        try {
+            await fs.promises.mkdir(quarantineDir, { recursive: true });
+            await fs.promises.rename(record.path, path.join(quarantineDir, `${record.id}.${Date.now()}`));
+            HashCache.delete(record.path);
+        } catch (error) {
+            log.error("Error quarantining fragment, deleting it instead", error, { fragment_id: record.id });
+            FileUtils.deleteFile(record.path);
+        }
+    }
+}
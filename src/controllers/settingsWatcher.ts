@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import SettingUtils from '../utils/setting';
+import Logger from '../utils/logger';
+import { SETTINGS_RELOAD_DEBOUNCE } from '../config/constants';
+import SocketController from './socket';
+
+const log = Logger.get('settings');
+
+/**
+ * Reloads node-settings.json when it changes on disk or on SIGHUP and applies it
+ * to the running node. An invalid file is logged and the running settings are kept.
+ */
+export default class SettingsWatcher {
+    private socketController: SocketController;
+    private watcher: fs.FSWatcher | null = null;
+    private debounceTimer: NodeJS.Timeout | null = null;
+    private reloading = false;
+    private pending = false;
+
+    constructor(socketController: SocketController) {
+        this.socketController = socketController;
+    }
+
+    public start(): void {
+        if (this.watcher) return;
+
+        // Watch the directory, editors and atomic saves replace the file instead of writing to it
+        const settingsPath = SettingUtils.getSettingsPath();
+        const fileName = path.basename(settingsPath);
+        try {
+            this.watcher = fs.watch(path.dirname(settingsPath), (_, changedFile) => {
+                if (changedFile === fileName) {
+                    this.scheduleReload();
+                }
+            });
+        } catch (error) {
+            log.warn("Cannot watch the settings file, reload with SIGHUP instead", { error: error instanceof Error ? error.message : String(error) });
+            return;
+        }
+        this.watcher.on('error', error => {
+            log.error("Settings watcher error", error);
+        });
+    }
+
+    public stop(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        this.watcher?.close();
+        this.watcher = null;
+    }
+
+    /**
+     * Reloads right away, a reload requested while one is running runs after it
+     */
+    public async reload(): Promise<void> {
+        if (this.reloading) {
+            this.pending = true;
+            return;
+        }
+        this.reloading = true;
+
+        try {
+            const changed = await SettingUtils.reloadSettings();
+            if (changed.length > 0) {
+                this.socketController.applySettings(changed);
+            }
+        } catch (error) {
+            log.error("Settings not reloaded, keeping the running settings", error);
+        } finally {
+            this.reloading = false;
+        }
+
+        if (this.pending) {
+            this.pending = false;
+            await this.reload();
+        }
+    }
+
+    private scheduleReload(): void {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            this.reload();
+        }, SETTINGS_RELOAD_DEBOUNCE);
+    }
+}
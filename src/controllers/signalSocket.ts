@@ -1,5 +1,5 @@
 import { Socket } from 'socket.io-client';
-import { NodeBaseInfo, AckFromServer, NodeResourcesVerify } from '../../../types/signal';
+import { NodeBaseInfo, AckFromServer, NodeResourcesVerify, NodeResourceHash } from '../../../types/signal';
 import { AppInfo, StoragePath } from '../types';
 import { NodeDeviceUpdate } from '../../../types/signal';
 import SystemUtils from '../utils/system';
@@ -7,19 +7,27 @@ import * as NODE from '../../../config/signal.socket.event.node';
 import SettingUtils from '../utils/setting';
 import { LIMIT_VERIFY_FRAGMENT_PER_EMIT } from '../config/constants';
 import FileUtils from '../utils/file';
+import HashCache from '../utils/hashCache';
+import FragmentIndex from '../utils/fragmentIndex';
+import Logger from '../utils/logger';
+import { isLocalLocation } from '../storage/location';
 
 export default class SignalSocketController {
     private socket: Socket;
+    private origin: string;
+    private log: Logger;
 
-    constructor(socket: Socket) {
+    constructor(socket: Socket, origin: string) {
         this.socket = socket;
+        this.origin = origin;
+        this.log = Logger.get('signal').child({ server: origin });
     }
 
     public async signUpDevice(): Promise<AppInfo> {
         try {
             const res = await this.socket.timeout(5000).emitWithAck(NODE.SIGN_UP, undefined) as AckFromServer<NodeBaseInfo> | undefined;
             if (res && res.success && res.data) {
-                console.log("Device signed up successfully with ID:", res.data.id);
+                this.log.info("Device signed up", { node_id: res.data.id });
                 SettingUtils.setAppInfo(res.data);
                 SettingUtils.saveSettings();
                 return res.data as AppInfo;
@@ -35,7 +43,7 @@ export default class SignalSocketController {
         try {
             const res = await this.socket.timeout(5000).emitWithAck(NODE.SIGN_IN, SettingUtils.getAppInfo()) as AckFromServer | undefined;
             if (res && res.success) {
-                console.log("Device signed in successfully with ID:", SettingUtils.getAppInfo()?.id);
+                this.log.info("Device signed in", { node_id: SettingUtils.getAppInfo()?.id });
             } else {
                 throw new Error(`Failed to sign in device: ${res?.error || 'Unknown error'}`);
             }
@@ -60,49 +68,71 @@ export default class SignalSocketController {
         };
 
         this.socket.emit(NODE.DEVICE_UPDATE, updatedInfo);
-        console.log("Device information updated:", updatedInfo.ram_available);
+        this.log.debug("Device information updated", { ram_available: updatedInfo.ram_available });
     }
 
     private updateInterval: NodeJS.Timeout | null = null;
 
-    public activateDeviceUpdates(storagePaths: StoragePath[]): void {
+    /**
+     * Storage paths are read on every update so reloaded settings are picked up
+     */
+    public activateDeviceUpdates(): void {
         // Clear any existing interval first
         this.deactivateDeviceUpdates();
 
         // Start a new interval to update device info every 5 seconds
         this.updateInterval = setInterval(() => {
-            this.updateDevice(storagePaths);
+            this.updateDevice(SettingUtils.getRemotePaths());
         }, 5000);
 
         // Send initial update immediately
-        this.updateDevice(storagePaths);
-        console.log("Device updates activated, sending updates every 5 seconds");
+        this.updateDevice(SettingUtils.getRemotePaths());
+        this.log.info("Device updates activated, sending updates every 5 seconds");
+    }
+
+    /**
+     * Pushes the current capacity right away instead of waiting for the next update
+     */
+    public sendDeviceUpdate(): void {
+        this.updateDevice(SettingUtils.getRemotePaths()).catch(error => {
+            this.log.error("Error sending device update", error);
+        });
     }
 
     public deactivateDeviceUpdates(): void {
         if (this.updateInterval) {
             clearInterval(this.updateInterval);
             this.updateInterval = null;
-            console.log("Device updates deactivated");
+            this.log.info("Device updates deactivated");
         }
     }
 
-    public verifyFragmentMap(): void {
-        const fragmentMap = SettingUtils.getFragmentMap();
-        if (!fragmentMap) {
-            console.error("Fragment map is not set");
-            return;
-        }
-        //console.log(`Fragment map size: ${fragmentMap.size}`);
-
-        // Convert fragmentMap to an array of paths only
-        const fragmentPaths = Array.from(fragmentMap.values());
-        console.log(`Verifying ${fragmentPaths.length} fragments`);
-        if (fragmentPaths.length === 0) {
+    public async verifyFragmentMap(): Promise<void> {
+        const records = FragmentIndex.getByOrigin(this.origin);
+        this.log.info("Verifying fragments", { count: records.length });
+        if (records.length === 0) {
             this.socket.emit(NODE.HASH_EMPTY);
             return;
         }
-        const fragmentHashes = FileUtils.hashFiles(fragmentPaths);
+
+        const startTime = Date.now();
+        const fragmentPaths = records.filter(record => isLocalLocation(record.path)).map(record => record.path);
+        // Reading every object back would be slow and costly, the scrubber checks them instead
+        const storedHashes: NodeResourceHash[] = records
+            .filter(record => !isLocalLocation(record.path))
+            .map(record => ({ fragment_id: record.id, hash: record.hash || '' }));
+        const fragmentHashes = [...await FileUtils.hashFiles(fragmentPaths), ...storedHashes];
+        HashCache.prune(FragmentIndex.getAll().map(record => record.path));
+        // Fragments found on disk without a recorded hash adopt the current one
+        await FragmentIndex.transaction(tx => {
+            fragmentHashes.forEach(fragmentHash => {
+                const record = FragmentIndex.get(fragmentHash.fragment_id);
+                if (record && !record.hash && fragmentHash.hash) {
+                    tx.put({ ...record, hash: fragmentHash.hash });
+                }
+            });
+        });
+        this.log.info("Hashed fragments", { count: fragmentHashes.length, duration_ms: Date.now() - startTime });
 
         const totalChunk = Math.ceil(fragmentHashes.length / LIMIT_VERIFY_FRAGMENT_PER_EMIT);
         // Send fragments to verify in chunks to avoid overloading
@@ -117,7 +147,7 @@ export default class SignalSocketController {
             try {
                 this.socket.emit(NODE.HASH_VERIFY, send);
             } catch (error) {
-                console.error("Failed to verify fragments:", error instanceof Error ? error.message : String(error));
+                this.log.error("Failed to verify fragments", error);
             }
         }
     }
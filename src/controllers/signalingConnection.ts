@@ -0,0 +1,170 @@
+import { io, Socket } from 'socket.io-client';
+import SettingUtils from '../utils/setting';
+import SignalSocketController from './signalSocket';
+import CommandSocketController from './commandSocket';
+import WebRTCSocketController from './webRTCSocket';
+import ReplicationSocketController from './replicationSocket';
+import TransferScheduler from './webrtc/TransferScheduler';
+import { NODE_DRAINING } from '../config/events';
+import { DRAIN_TIMEOUT } from '../config/constants';
+import Logger from '../utils/logger';
+
+export interface SignalingConnectionHooks {
+    // Makes sure the node has an id before signing in, signing up through `signal` if needed
+    register: (signal: SignalSocketController) => Promise<void>
+    onReady: (connection: SignalingConnection) => void
+    onLost: (connection: SignalingConnection) => void
+}
+
+/**
+ * One registration with one signaling server: the socket plus the controllers
+ * serving that server's commands, offers and peers. A connection is never
+ * reused, once lost it is closed and the owner opens a new one.
+ */
+export default class SignalingConnection {
+    public readonly url: string;
+    private socket: Socket;
+    private hooks: SignalingConnectionHooks;
+    private signalSocketController: SignalSocketController;
+    private commandSocketController: CommandSocketController;
+    private webrtcSocketController: WebRTCSocketController;
+    private replicationSocketController: ReplicationSocketController;
+    private log: Logger;
+    private ready = false;
+    private closed = false;
+
+    constructor(url: string, transferScheduler: TransferScheduler, hooks: SignalingConnectionHooks) {
+        this.url = url;
+        this.hooks = hooks;
+        this.log = Logger.get('signaling').child({ server: url });
+
+        // Socket.io's own reconnection is disabled, the owner decides where to reconnect
+        this.socket = io(url, {
+            path: '/socket.io',
+            reconnection: false
+        });
+        this.signalSocketController = new SignalSocketController(this.socket, url);
+        this.commandSocketController = new CommandSocketController(this.socket, url);
+        this.webrtcSocketController = new WebRTCSocketController(this.socket, transferScheduler, url);
+        this.replicationSocketController = new ReplicationSocketController(this.socket, url, this.webrtcSocketController);
+        this.socket.on('connect_error', this.handleConnectError);
+        this.socket.on('connect', this.handleConnect);
+        this.socket.on('disconnect', this.handleDisconnect);
+    }
+
+    public getSocket(): Socket {
+        return this.socket;
+    }
+
+    public isReady(): boolean {
+        return this.ready;
+    }
+
+    public getWebRTCController(): WebRTCSocketController {
+        return this.webrtcSocketController;
+    }
+
+    /**
+     * Asks the server to stop routing new clients to this node
+     */
+    public async drain(): Promise<void> {
+        if (!this.ready) return;
+
+        try {
+            await this.socket.timeout(5000).emitWithAck(NODE_DRAINING, { id: SettingUtils.getAppInfo()?.id });
+        } catch (error) {
+            this.log.warn("Signaling server did not acknowledge drain", { error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    public verifyFragments(): Promise<void> {
+        return this.signalSocketController.verifyFragmentMap();
+    }
+
+    public sendDeviceUpdate(): void {
+        if (this.ready) {
+            this.signalSocketController.sendDeviceUpdate();
+        }
+    }
+
+    public reportFinalStats(): Promise<void> {
+        return this.webrtcSocketController.reportFinalStats();
+    }
+
+    /**
+     * Stops everything bound to the signaling socket without notifying the owner.
+     * Peer connections stay open until they time out, so a signaling drop does
+     * not cut running transfers.
+     */
+    public close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.ready = false;
+
+        this.signalSocketController.deactivateDeviceUpdates();
+        this.webrtcSocketController.detach();
+        this.socket.removeAllListeners();
+        this.socket.disconnect();
+    }
+
+    /**
+     * Closes the connection for good, giving running transfers up to `drainTimeout`
+     * to finish before every peer is closed
+     */
+    public async remove(drainTimeout: number = DRAIN_TIMEOUT): Promise<void> {
+        this.close();
+        const drained = await this.webrtcSocketController.waitForSessions(drainTimeout);
+        if (!drained) {
+            this.log.warn("Transfers still running after the drain timeout, aborting them", {
+                sessions: this.webrtcSocketController.getTransferSessions().length
+            });
+        }
+        this.webrtcSocketController.cleanup();
+    }
+
+    /**
+     * Closes the connection and every peer right away, for when the node stops
+     */
+    public destroy(): void {
+        this.close();
+        this.webrtcSocketController.cleanup();
+    }
+
+    private handleConnect = async (): Promise<void> => {
+        this.log.info("Connected to signaling server");
+
+        try {
+            await this.hooks.register(this.signalSocketController);
+            await this.signalSocketController.signInDevice();
+        } catch (error) {
+            this.log.error("Socket controller signin error", error);
+            this.fail();
+            return;
+        }
+        // The connection may have dropped while signing in
+        if (this.closed) return;
+
+        this.ready = true;
+        this.signalSocketController.activateDeviceUpdates();
+        this.signalSocketController.verifyFragmentMap().catch(error => {
+            this.log.error("Fragment verification error", error);
+        });
+        this.hooks.onReady(this);
+    }
+
+    private handleConnectError = (error: Error): void => {
+        this.log.error("Connection error", error);
+        this.fail();
+    }
+
+    private handleDisconnect = (reason: Socket.DisconnectReason): void => {
+        this.log.warn("Disconnected from signaling server", { reason });
+        this.fail();
+    }
+
+    private fail(): void {
+        if (this.closed) return;
+        this.close();
+        this.hooks.onLost(this);
+    }
+}
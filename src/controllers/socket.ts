@@ -1,92 +1,260 @@
-import { io, Socket } from 'socket.io-client';
+import { Socket } from 'socket.io-client';
 import SettingUtils from '../utils/setting';
+import FragmentIndex from '../utils/fragmentIndex';
+import HashCache from '../utils/hashCache';
+import { AppConfig, FragmentRecord } from '../types';
+import { DRAIN_TIMEOUT, DRAIN_CANCEL_REASON } from '../config/constants';
 import SignalSocketController from './signalSocket';
-import CommandSocketController from './commandSocket';
-import WebRTCSocketController from './webRTCSocket';
+import ScrubSocketController from './scrubSocket';
+import QuotaSocketController from './quotaSocket';
+import ConnectionSupervisor from './connectionSupervisor';
+import SignalingConnection from './signalingConnection';
+import TransferScheduler from './webrtc/TransferScheduler';
+import Logger from '../utils/logger';
 
+const log = Logger.get('signaling');
+
+/**
+ * Keeps the node registered with up to `signaling.max_connections` signaling servers
+ * at once, the healthiest ones first. Transfer limits, scrubbing and quotas are shared by all
+ * connections, everything else is tracked per server.
+ */
 export default class SocketController {
-    private socket!: Socket;
-    private serverIndex: number = 0;
-    private maxServerIndex: number = 0;
-    private signalSocketController!: SignalSocketController;
-    private commandSocketController!: CommandSocketController;
-    private webrtcSocketController!: WebRTCSocketController;
+    private connections: Map<string, SignalingConnection> = new Map();
+    private supervisor: ConnectionSupervisor = new ConnectionSupervisor();
+    private refillTimer: NodeJS.Timeout | null = null;
+    private filling = false;
+    private registration: Promise<void> | null = null;
+    private shuttingDown = false;
+    private transferScheduler!: TransferScheduler;
+    private scrubSocketController!: ScrubSocketController;
+    private quotaSocketController!: QuotaSocketController;
 
     constructor() {
-        
+
     }
 
     public createConnection(): void {
         const servers = SettingUtils.getSignalingServers();
         if (!servers || servers.length === 0) {
-            console.error("No signaling servers configured.");
+            log.error("No signaling servers configured");
             process.exit(1);
         }
 
-        const signalServerUrl = servers[0];
-        this.socket = io(signalServerUrl, {
-            path: '/socket.io'
-        });
-        this.signalSocketController = new SignalSocketController(this.socket);
-        this.commandSocketController = new CommandSocketController(this.socket);
-        this.webrtcSocketController = new WebRTCSocketController(this.socket);
-        this.serverIndex = 0;
-        this.maxServerIndex = servers.length - 1;
-        this.socket.on('connect_error', this.handleConnectError);
-        this.socket.on('connect', this.handleConnect);
+        this.transferScheduler = new TransferScheduler(SettingUtils.getTransferLimits());
+        this.scrubSocketController = new ScrubSocketController(this.getOriginSockets);
+        this.quotaSocketController = new QuotaSocketController(this.getReadySockets, this.getBusyFragments);
+        this.fill().catch(this.handleFillError);
     }
 
-    private handleConnect = async (): Promise<void> => {
-        console.log(`Connected to signaling server: ${this.socket.io.opts.hostname}:${this.socket.io.opts.port}`);
+    /**
+     * Opens connections until the configured number of servers is reached
+     */
+    private async fill(): Promise<void> {
+        if (this.filling) return;
+        this.filling = true;
+
+        try {
+            const servers = SettingUtils.getSignalingServers() || [];
+            const { max_connections } = SettingUtils.getSignalingConfig();
+            const target = max_connections > 0 ? Math.min(max_connections, servers.length) : servers.length;
+
+            let candidates = servers.filter(url => !this.connections.has(url));
+            while (this.connections.size < target && candidates.length > 0) {
+                const url = await this.supervisor.selectServer(candidates);
+                if (this.shuttingDown) break;
+                candidates = candidates.filter(candidate => candidate !== url);
 
+                log.info("Connecting to signaling server", { server: url });
+                this.connections.set(url, new SignalingConnection(url, this.transferScheduler, {
+                    register: this.register,
+                    onReady: this.handleReady,
+                    onLost: this.handleLost
+                }));
+            }
+        } finally {
+            this.filling = false;
+        }
+    }
+
+    /**
+     * Signs the node up once, even when several connections come up at the same time
+     */
+    private register = (signal: SignalSocketController): Promise<void> => {
         const info = SettingUtils.getAppInfo();
-        if (!info || info.id === '' || info.auth_token === '') {
-            try {
-                const res = await this.signalSocketController.signUpDevice();
-                SettingUtils.setAppInfo(res);
-                //Setting.saveSettings();
-            } catch (error) {
-                console.error("Socket controller signup error: ", error);
-                process.exit(1);
+        if (info && info.id !== '' && info.auth_token !== '') {
+            return Promise.resolve();
+        }
+
+        if (!this.registration) {
+            this.registration = signal.signUpDevice()
+                .then(res => SettingUtils.setAppInfo(res))
+                .finally(() => {
+                    this.registration = null;
+                });
+        }
+        return this.registration;
+    }
+
+    private handleReady = (connection: SignalingConnection): void => {
+        this.supervisor.recordSuccess(connection.url);
+        this.scrubSocketController.start();
+        this.quotaSocketController.start();
+    }
+
+    private handleLost = (connection: SignalingConnection): void => {
+        if (this.connections.get(connection.url) === connection) {
+            this.connections.delete(connection.url);
+        }
+        this.supervisor.recordFailure(connection.url);
+        if (!this.shuttingDown) {
+            this.scheduleRefill();
+        }
+    }
+
+    public getTransferLoad(): { active: number, queued: number } {
+        return {
+            active: this.transferScheduler?.getActiveCount() || 0,
+            queued: this.transferScheduler?.getQueuedCount() || 0
+        };
+    }
+
+    public getConnections(): SignalingConnection[] {
+        return Array.from(this.connections.values());
+    }
+
+    /**
+     * Re-hashes the fragments and reports them to every ready server
+     */
+    public async verifyFragments(): Promise<void> {
+        const ready = this.getConnections().filter(connection => connection.isReady());
+        await Promise.all(ready.map(connection => connection.verifyFragments()));
+    }
+
+    /**
+     * Applies reloaded settings to the running connections
+     * @param changed - Top-level settings sections that changed
+     */
+    public applySettings(changed: Array<keyof AppConfig>): void {
+        if (this.shuttingDown) return;
+
+        if (changed.includes('transfer')) {
+            this.transferScheduler.setLimits(SettingUtils.getTransferLimits());
+        }
+
+        if (changed.includes('scrub')) {
+            this.scrubSocketController.stop();
+            if (this.getConnections().some(connection => connection.isReady())) {
+                this.scrubSocketController.start();
             }
         }
 
-        try {
-            await this.signalSocketController.signInDevice();
-            this.signalSocketController.activateDeviceUpdates(SettingUtils.getRemotePaths());
-            this.signalSocketController.verifyFragmentMap();
-        } catch (error) {
-            console.error("Socket controller signin error: ", error);
-            process.exit(1);
+        if (changed.includes('quota')) {
+            this.quotaSocketController.stop();
+            if (this.getConnections().some(connection => connection.isReady())) {
+                this.quotaSocketController.start();
+            }
+        }
+
+        if (changed.includes('paths')) {
+            this.getConnections().forEach(connection => connection.sendDeviceUpdate());
+            this.verifyFragments().catch(error => {
+                log.error("Fragment verification error", error);
+            });
+        }
+
+        if (changed.includes('signaling_servers') || changed.includes('signaling')) {
+            const servers = SettingUtils.getSignalingServers() || [];
+            this.connections.forEach((connection, url) => {
+                if (!servers.includes(url)) {
+                    log.info("Signaling server removed from the settings, disconnecting", { server: url });
+                    this.connections.delete(url);
+                    connection.remove().catch(error => {
+                        log.error("Error removing signaling server", error, { server: url });
+                    });
+                }
+            });
+            this.fill().catch(this.handleFillError);
         }
     }
 
-    private handleConnectError = (error: Error): void => {
-        this.signalSocketController.deactivateDeviceUpdates();
+    /**
+     * Drains the node: servers stop routing new clients, new requests are rejected,
+     * running transfers get up to `drainTimeout` to finish, then every socket is closed
+     */
+    public async shutdown(drainTimeout: number = DRAIN_TIMEOUT): Promise<void> {
+        if (this.shuttingDown) return;
+        this.shuttingDown = true;
+        log.info("Draining node", { timeout_ms: drainTimeout });
 
-        console.error(`Connection error: ${error.message}`);
+        if (this.refillTimer) {
+            clearTimeout(this.refillTimer);
+            this.refillTimer = null;
+        }
+        this.scrubSocketController?.stop();
+        this.quotaSocketController?.stop();
+        // Reject new and queued requests right away, before waiting on the servers
+        this.transferScheduler?.drain(DRAIN_CANCEL_REASON);
 
-        const servers = SettingUtils.getSignalingServers();
-        if (!servers) return;
-
-        if (this.serverIndex < this.maxServerIndex) {
-            this.serverIndex++;
-            const nextServer = servers[this.serverIndex];
-            console.log(`Attempting to connect to alternative server: ${nextServer}`);
-
-            // Close current connection
-            this.socket.disconnect();
-
-            setTimeout(() => {
-                console.log(`Reconnecting to ${nextServer}...`);
-                // Update the URI and attempt reconnection
-                // @ts-ignore - io.uri is not in the types but is used in the original code
-                this.socket.io.uri = nextServer;
-                this.socket.connect();
-            }, 5000);
-        } else {
-            console.error("Tried all available signaling servers without success.");
-            process.exit(1);
+        const connections = Array.from(this.connections.values());
+        await Promise.all(connections.map(connection => connection.drain()));
+
+        if (this.transferScheduler) {
+            const idle = await this.transferScheduler.waitForIdle(drainTimeout);
+            if (!idle) {
+                log.warn("Transfers still running after the drain timeout, aborting them", { active: this.transferScheduler.getActiveCount() });
+            }
         }
+
+        await Promise.all(connections.map(connection => connection.reportFinalStats()));
+        connections.forEach(connection => connection.destroy());
+        this.connections.clear();
+
+        await FragmentIndex.flush().catch(error => {
+            log.error("Error saving fragment index", error);
+        });
+        await HashCache.save();
+        log.info("Node drained");
+    }
+
+    private handleFillError = (error: unknown): void => {
+        log.error("Error connecting to signaling servers", error);
+        this.scheduleRefill();
+    }
+
+    private scheduleRefill(): void {
+        if (this.refillTimer || this.shuttingDown) return;
+
+        const delay = this.supervisor.nextDelay();
+        log.info("Reconnecting to signaling tier", { delay_ms: delay });
+        this.refillTimer = setTimeout(() => {
+            this.refillTimer = null;
+            this.fill().catch(this.handleFillError);
+        }, delay);
+    }
+
+    /**
+     * Sockets of the servers that placed a fragment, or of every ready server
+     * when its origin is unknown
+     */
+    private getOriginSockets = (record: FragmentRecord): Socket[] => {
+        return Array.from(this.connections.values())
+            .filter(connection => connection.isReady())
+            .filter(connection => !record.origins || record.origins.includes(connection.url))
+            .map(connection => connection.getSocket());
+    }
+
+    private getReadySockets = (): Map<string, Socket> => {
+        return new Map(Array.from(this.connections.values())
+            .filter(connection => connection.isReady())
+            .map(connection => [connection.url, connection.getSocket()]));
+    }
+
+    private getBusyFragments = (): Set<string> => {
+        const busy = new Set<string>();
+        this.connections.forEach(connection => {
+            connection.getWebRTCController().getBusyFragments().forEach(fragmentId => busy.add(fragmentId));
+        });
+        return busy;
     }
 }
@@ -6,6 +6,14 @@ import DataChannelHandler from './webrtc/DataChannelHandler';
 import FileTransferManager from './webrtc/FileTransferManager';
 import StatsReporter from './webrtc/StatsReporter';
 import RequestReporter from './webrtc/RequestReporter';
+import TransferScheduler from './webrtc/TransferScheduler';
+import type FragmentReceiver from './webrtc/FragmentReceiver';
+import FragmentClient from '../client/FragmentClient';
+import type { TransferSessionInfo } from './webrtc/types';
+import SettingUtils from '../utils/setting';
+import AsyncUtils from '../utils/async';
+import { DETACHED_CHECK_INTERVAL } from '../config/constants';
+import Logger from '../utils/logger';
 
 export default class WebRTCSocketController {
     private socket: Socket;
@@ -14,23 +22,36 @@ export default class WebRTCSocketController {
     private fileTransferManager: FileTransferManager;
     private statsReporter: StatsReporter;
     private requestReporter: RequestReporter;
+    private transferScheduler: TransferScheduler;
+    // Connections this node opened to pull fragments from other nodes
+    private fragmentClient: FragmentClient;
+    private log: Logger;
+    private detachedCheckId: NodeJS.Timeout | null = null;
 
-    constructor(socket: Socket) {
+    constructor(socket: Socket, transferScheduler: TransferScheduler, origin: string) {
         this.socket = socket;
+        this.log = Logger.get('webrtc').child({ server: origin });
         
         // Initialize components
         this.requestReporter = new RequestReporter(socket);
-        this.fileTransferManager = new FileTransferManager(this.requestReporter);
-        this.statsReporter = new StatsReporter(socket);
+        this.transferScheduler = transferScheduler;
+        this.fileTransferManager = new FileTransferManager(this.requestReporter, this.transferScheduler, this.log);
+        this.statsReporter = new StatsReporter(socket, this.log);
         this.dataChannelHandler = new DataChannelHandler(
             this.fileTransferManager,
-            this.updateLastActivity.bind(this)
+            this.updateLastActivity.bind(this),
+            this.log
         );
         this.peerConnectionManager = new PeerConnectionManager(
             socket,
             this.dataChannelHandler,
-            this.statsReporter
+            this.statsReporter,
+            this.log
         );
+        this.fragmentClient = new FragmentClient(socket, {
+            iceServers: () => SettingUtils.getIceServers() || undefined,
+            log: this.log
+        });
 
         this.setupWebRTCHandlers();
     }
@@ -44,10 +65,10 @@ export default class WebRTCSocketController {
     private async handleOffer(data: WebRTCOffer) {
         const { source, offer } = data;
         if (!source) {
-            console.warn(`Received offer without source`);
+            this.log.warn("Received offer without source");
             return;
         }
-        console.log(`[WebRTC] Received offer from client: ${source}`);
+        this.log.info("Received offer", { peer_id: source });
 
         try {
             const peerData = this.peerConnectionManager.createPeerConnection(
@@ -65,9 +86,9 @@ export default class WebRTCSocketController {
             };
 
             this.socket.emit(RTC.ANSWER, answerMessage);
-            console.log(`[WebRTC] Sent answer to client: ${source}`);
+            this.log.info("Sent answer", { peer_id: source });
         } catch (error) {
-            console.error(`[WebRTC] Error handling offer from ${source}:`, error);
+            this.log.error("Error handling offer", error, { peer_id: source });
             this.peerConnectionManager.cleanup(source);
         }
     }
@@ -75,22 +96,24 @@ export default class WebRTCSocketController {
     private async handleAnswer(data: WebRTCAnswer) {
         const { source, answer } = data;
         if (!source) {
-            console.warn(`Received answer without source`);
+            this.log.warn("Received answer without source");
             return;
         }
-        console.log(`[WebRTC] Received answer from client: ${source}`);
+        // Answers to offers sent by the fragment client are handled there
+        if (this.fragmentClient.hasPeer(source)) return;
+        this.log.info("Received answer", { peer_id: source });
 
         if (!this.peerConnectionManager.hasPeerConnection(source)) {
-            console.warn(`[WebRTC] No peer connection found for client: ${source}`);
+            this.log.warn("No peer connection found", { peer_id: source });
             return;
         }
 
         try {
             await this.peerConnectionManager.setRemoteDescription(source, answer);
-            console.log(`[WebRTC] Set remote description for client: ${source}`);
+            this.log.debug("Set remote description", { peer_id: source });
             this.updateLastActivity(source);
         } catch (error) {
-            console.error(`[WebRTC] Error handling answer from ${source}:`, error);
+            this.log.error("Error handling answer", error, { peer_id: source });
             this.peerConnectionManager.cleanup(source);
         }
     }
@@ -98,24 +121,25 @@ export default class WebRTCSocketController {
     private async handleIceCandidate(data: WebRTCIceCandidate) {
         const { source, candidate } = data;
         if (!source) {
-            console.warn(`Received ICE candidate without source`);
+            this.log.warn("Received ICE candidate without source");
             return;
         }
-        console.log(`[WebRTC] Received ICE candidate from client: ${source}`);
+        if (this.fragmentClient.hasPeer(source)) return;
+        this.log.debug("Received ICE candidate", { peer_id: source });
 
         if (!this.peerConnectionManager.hasPeerConnection(source)) {
-            console.warn(`[WebRTC] No peer connection found for client: ${source}`);
+            this.log.warn("No peer connection found", { peer_id: source });
             return;
         }
 
         try {
             if (candidate && candidate.candidate) {
                 await this.peerConnectionManager.addIceCandidate(source, candidate);
-                console.log(`[WebRTC] Added ICE candidate for client: ${source}`);
+                this.log.debug("Added ICE candidate", { peer_id: source });
                 this.updateLastActivity(source);
             }
         } catch (error) {
-            console.error(`[WebRTC] Error adding ICE candidate from ${source}:`, error);
+            this.log.error("Error adding ICE candidate", error, { peer_id: source });
         }
     }
 
@@ -124,35 +148,16 @@ export default class WebRTCSocketController {
     }
 
     // Public methods for external use
-    public async connectToPeer(targetId: string): Promise<void> {
-        if (this.peerConnectionManager.hasPeerConnection(targetId)) {
-            console.log(`[WebRTC] Already connected or connecting to: ${targetId}`);
-            return;
-        }
-
-        console.log(`[WebRTC] Initiating connection to: ${targetId}`);
-
-        try {
-            this.peerConnectionManager.createPeerConnection(
-                targetId,
-                this.updateLastActivity.bind(this)
-            );
 
-            const offer = await this.peerConnectionManager.createOffer(targetId);
-            await this.peerConnectionManager.setLocalDescription(targetId, offer);
-
-            const offerMessage: WebRTCOffer = {
-                target: targetId,
-                offer: offer
-            };
-
-            this.socket.emit(RTC.OFFER, offerMessage);
-            console.log(`[WebRTC] Sent offer to: ${targetId}`);
-        } catch (error) {
-            console.error(`[WebRTC] Error connecting to peer ${targetId}:`, error);
-            this.peerConnectionManager.cleanup(targetId);
-            throw error;
+    /**
+     * Connects to another node as a client and returns a receiver for pulling
+     * fragments from it. Concurrent callers share one connection.
+     */
+    public async connectToPeer(targetId: string): Promise<FragmentReceiver> {
+        if (this.peerConnectionManager.hasPeerConnection(targetId)) {
+            throw new Error(`${targetId} is already connected to this node as a client`);
         }
+        return this.fragmentClient.connectToNode(targetId);
     }
 
     public getConnectedPeers(): string[] {
@@ -160,6 +165,7 @@ export default class WebRTCSocketController {
     }
 
     public disconnectFromPeer(clientId: string): void {
+        this.fragmentClient.disconnect(clientId);
         this.peerConnectionManager.cleanup(clientId);
     }
 
@@ -167,8 +173,69 @@ export default class WebRTCSocketController {
         return this.peerConnectionManager.getConnectionState(clientId);
     }
 
+    public getTransferSessions(): TransferSessionInfo[] {
+        return this.peerConnectionManager.getTransferSessions();
+    }
+
+    /**
+     * Cancels a session on behalf of the node operator, returns false if it is unknown
+     */
+    public cancelSession(clientId: string, sessionId: string, reason: string): boolean {
+        const peerData = this.peerConnectionManager.getPeerData(clientId);
+        if (!peerData) return false;
+        return this.fileTransferManager.abortTransfer(clientId, peerData, sessionId, reason);
+    }
+
+    /**
+     * Fragments with a running session or a resume point, removing one would break its transfer
+     */
+    public getBusyFragments(): Set<string> {
+        const busy = this.fileTransferManager.getResumableFragments();
+        this.getTransferSessions().forEach(session => busy.add(session.fragmentId));
+        return busy;
+    }
+
+    public getTransferMetrics() {
+        return this.fileTransferManager.getMetrics();
+    }
+
+    public reportFinalStats(): Promise<void> {
+        return this.peerConnectionManager.reportFinalStats();
+    }
+
+    /**
+     * Keeps the peers after the signaling socket is gone: they finish their
+     * transfers or time out on their own, the controller cleans up once none is left
+     */
+    public detach(): void {
+        if (this.detachedCheckId) return;
+        this.detachedCheckId = setInterval(() => {
+            if (this.peerConnectionManager.getPeerCount() === 0 && this.fragmentClient.getPeerCount() === 0) {
+                this.cleanup();
+            }
+        }, DETACHED_CHECK_INTERVAL);
+    }
+
+    /**
+     * Resolves true once no transfer session is left on this controller's peers,
+     * false if some are still running after `timeoutMs`
+     */
+    public async waitForSessions(timeoutMs: number): Promise<boolean> {
+        const deadline = Date.now() + timeoutMs;
+        while (this.getTransferSessions().length > 0) {
+            if (Date.now() >= deadline) return false;
+            await AsyncUtils.sleep(Math.min(1000, deadline - Date.now()));
+        }
+        return true;
+    }
+
     public cleanup() {
-        this.peerConnectionManager.cleanupAll();
-        console.log('[WebRTC] WebRTC controller cleaned up');
+        if (this.detachedCheckId) {
+            clearInterval(this.detachedCheckId);
+            this.detachedCheckId = null;
+        }
+        this.fragmentClient.close();
+        this.peerConnectionManager.destroy();
+        this.log.info("WebRTC controller cleaned up");
     }
 }
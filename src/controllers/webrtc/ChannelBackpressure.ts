@@ -0,0 +1,64 @@
+import { RTCDataChannel } from '@roamhq/wrtc';
+import type { BackpressureConfig } from './types';
+
+type DrainWaiter = (drained: boolean) => void;
+
+/**
+ * Shares one data channel's `bufferedamountlow` event between every session
+ * sending on it. Senders stop once the buffer passes the high water mark and
+ * are woken by the channel instead of polling bufferedAmount.
+ */
+export default class ChannelBackpressure {
+    private dataChannel: RTCDataChannel;
+    private config: BackpressureConfig;
+    private waiters: Set<DrainWaiter> = new Set();
+    private closed = false;
+
+    constructor(dataChannel: RTCDataChannel, config: BackpressureConfig) {
+        this.dataChannel = dataChannel;
+        this.config = config;
+
+        this.dataChannel.bufferedAmountLowThreshold = config.lowWaterMark;
+        this.dataChannel.onbufferedamountlow = () => this.wakeAll(true);
+    }
+
+    public shouldWait(): boolean {
+        return this.dataChannel.bufferedAmount > this.config.highWaterMark;
+    }
+
+    /**
+     * Resolves true once the channel has drained below the low water mark,
+     * false if it closed or stayed full for longer than the stall timeout
+     */
+    public waitForDrain(): Promise<boolean> {
+        if (this.closed || this.dataChannel.readyState !== 'open') {
+            return Promise.resolve(false);
+        }
+        if (this.dataChannel.bufferedAmount <= this.config.lowWaterMark) {
+            return Promise.resolve(true);
+        }
+
+        return new Promise(resolve => {
+            const timeoutId = setTimeout(() => {
+                this.waiters.delete(waiter);
+                resolve(false);
+            }, this.config.stallTimeout);
+
+            const waiter: DrainWaiter = (drained) => {
+                clearTimeout(timeoutId);
+                this.waiters.delete(waiter);
+                resolve(drained);
+            };
+            this.waiters.add(waiter);
+        });
+    }
+
+    public close(): void {
+        this.closed = true;
+        this.wakeAll(false);
+    }
+
+    private wakeAll(drained: boolean): void {
+        Array.from(this.waiters).forEach(waiter => waiter(drained));
+    }
+}
@@ -0,0 +1,39 @@
+import { Readable } from 'stream';
+
+/**
+ * Reads a stream in pieces of an exact size, however the stream happens to
+ * split its data, so each chunk frame can be filled in place
+ */
+export default class ChunkReader {
+    private stream: Readable;
+    private iterator: AsyncIterator<Buffer>;
+    private pending: Buffer = Buffer.alloc(0);
+
+    constructor(stream: Readable) {
+        this.stream = stream;
+        this.iterator = stream[Symbol.asyncIterator]();
+    }
+
+    /**
+     * Copies up to `length` bytes into `target` at `offset`, returns fewer only at the end of the stream
+     */
+    public async readInto(target: Buffer, offset: number, length: number): Promise<number> {
+        let filled = 0;
+        while (filled < length) {
+            if (this.pending.length === 0) {
+                const { value, done } = await this.iterator.next();
+                if (done) break;
+                this.pending = value;
+            }
+
+            const copied = this.pending.copy(target, offset + filled, 0, length - filled);
+            this.pending = this.pending.subarray(copied);
+            filled += copied;
+        }
+        return filled;
+    }
+
+    public close(): void {
+        this.stream.destroy();
+    }
+}
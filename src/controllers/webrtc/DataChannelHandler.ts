@@ -1,19 +1,24 @@
 import { RTCDataChannel } from '@roamhq/wrtc';
 import { DataChannelMessageType } from '../../../../config/signal.socket.event.webrtc';
-import type { RequestNodeMessage, CanceledMessage } from '../../../../types/signal';
-import type { PeerConnectionData } from './types';
+import type { CanceledMessage } from '../../../../types/signal';
+import type { PeerConnectionData, RangedRequestNodeMessage, ResumeMessage, AckMessage } from './types';
+import { TransferMessageType } from './protocol';
 import FileTransferManager from './FileTransferManager';
+import Logger from '../../utils/logger';
 
 export default class DataChannelHandler {
     private fileTransferManager: FileTransferManager;
     private onActivityUpdate: (clientId: string) => void;
+    private log: Logger;
 
     constructor(
         fileTransferManager: FileTransferManager,
-        onActivityUpdate: (clientId: string) => void
+        onActivityUpdate: (clientId: string) => void,
+        log: Logger
     ) {
         this.fileTransferManager = fileTransferManager;
         this.onActivityUpdate = onActivityUpdate;
+        this.log = log;
     }
 
     public setupDataChannel(
@@ -24,22 +29,22 @@ export default class DataChannelHandler {
         peerData.dataChannel = dataChannel;
 
         dataChannel.onopen = () => {
-            console.log(`[WebRTC] Data channel opened with client: ${remoteId}`);
+            this.log.info("Data channel opened", { peer_id: remoteId });
             this.onActivityUpdate(remoteId);
         };
 
         dataChannel.onmessage = (event) => {
-            console.log(`[WebRTC] Received message from ${remoteId}`);
             this.onActivityUpdate(remoteId);
             this.handleMessage(event.data, remoteId, peerData);
         };
 
         dataChannel.onclose = () => {
-            console.log(`[WebRTC] Data channel closed with client: ${remoteId}`);
+            this.log.info("Data channel closed", { peer_id: remoteId });
+            peerData.backpressure?.close();
         };
 
         dataChannel.onerror = (error) => {
-            console.error(`[WebRTC] Data channel error with ${remoteId}:`, error);
+            this.log.error("Data channel error", error, { peer_id: remoteId });
         };
     }
 
@@ -51,7 +56,10 @@ export default class DataChannelHandler {
         try {
             if (typeof data === 'string') {
                 const message = JSON.parse(data);
-                console.log(`[WebRTC] Received message from ${fromClientId}:`, message.type);
+                this.log.debug(`Received ${message.type} message`, {
+                    peer_id: fromClientId,
+                    session_id: message.session_id
+                });
 
                 switch (message.type) {
                     case DataChannelMessageType.READY_NODE:
@@ -60,17 +68,23 @@ export default class DataChannelHandler {
                     case DataChannelMessageType.CANCELED:
                         this.handleCancelRequest(message, fromClientId, peerData);
                         break;
+                    case TransferMessageType.RESUME:
+                        this.handleResumeRequest(message, fromClientId, peerData);
+                        break;
+                    case TransferMessageType.ACK:
+                        this.handleAck(message, fromClientId);
+                        break;
                     default:
-                        console.log(`[WebRTC] Unknown message type: ${message.type}`);
+                        this.log.warn(`Unknown message type: ${message.type}`, { peer_id: fromClientId });
                 }
             }
         } catch (error) {
-            console.error('[WebRTC] Error handling data channel message:', error);
+            this.log.error("Error handling data channel message", error, { peer_id: fromClientId });
         }
     }
 
     private handleFragmentRequest(
-        message: RequestNodeMessage,
+        message: RangedRequestNodeMessage,
         fromClientId: string,
         peerData: PeerConnectionData
     ): void {
@@ -82,20 +96,39 @@ export default class DataChannelHandler {
         );
     }
 
+    private handleResumeRequest(
+        message: ResumeMessage,
+        fromClientId: string,
+        peerData: PeerConnectionData
+    ): void {
+        this.fileTransferManager.resumeTransfer(
+            message,
+            fromClientId,
+            peerData,
+            this.onActivityUpdate
+        );
+    }
+
+    private handleAck(message: AckMessage, fromClientId: string): void {
+        this.fileTransferManager.acknowledgeTransfer(fromClientId, message.session_id, message.offset);
+    }
+
     private handleCancelRequest(
         message: CanceledMessage,
         fromClientId: string,
         peerData: PeerConnectionData
     ): void {
-        console.log(
-            `[WebRTC] Received cancel request for session ${message.session_id} from ${fromClientId}`
-        );
+        this.log.info("Received cancel request", { peer_id: fromClientId, session_id: message.session_id });
         this.fileTransferManager.cancelTransfer(fromClientId, peerData, message.session_id);
     }
 
+    public handlePeerClosed(remoteId: string, peerData: PeerConnectionData): void {
+        this.fileTransferManager.cleanupPeer(remoteId, peerData);
+    }
+
     public sendData(dataChannel: RTCDataChannel, data: string | ArrayBuffer): boolean {
         if (dataChannel.readyState !== 'open') {
-            console.warn(`[WebRTC] Cannot send data: data channel not open`);
+            this.log.warn("Cannot send data: data channel not open");
             return false;
         }
 
@@ -107,7 +140,7 @@ export default class DataChannelHandler {
             }
             return true;
         } catch (error) {
-            console.error(`[WebRTC] Error sending data:`, error);
+            this.log.error("Error sending data", error);
             return false;
         }
     }
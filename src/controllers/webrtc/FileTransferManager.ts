@@ -1,43 +1,116 @@
 import { RTCDataChannel } from '@roamhq/wrtc';
-import * as fs from 'fs';
 import * as si from 'systeminformation';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { createHash } from 'blake2';
 import { DataChannelMessageType } from '../../../../config/signal.socket.event.webrtc';
 import type { RequestNodeMessage, CanceledMessage } from '../../../../types/signal';
-import { CHUNK_SIZE } from '../../config/constants';
-import SettingUtils from '../../utils/setting';
-import type { TransferSession, PeerConnectionData, FlowControlConfig } from './types';
+import { CHUNK_SIZE, RESUME_POINT_TTL, DRAIN_CANCEL_REASON } from '../../config/constants';
+import FragmentIndex from '../../utils/fragmentIndex';
+import StorageUtils from '../../utils/storage';
+import MetricsUtils from '../../utils/metrics';
+import Logger from '../../utils/logger';
+import type {
+    TransferSession,
+    PeerConnectionData,
+    BackpressureConfig,
+    TransferMetrics,
+    RangedRequestNodeMessage,
+    ResumeMessage,
+    ResumePoint,
+    ByteRange,
+    FragmentDigestMessage,
+    SessionStartedMessage
+} from './types';
+import { TransferMessageType, getChunkHeaderSize, writeChunkHeader, crc32 } from './protocol';
 import RequestReporter from './RequestReporter';
+import TransferScheduler from './TransferScheduler';
+import ChannelBackpressure from './ChannelBackpressure';
+import ChunkReader from './ChunkReader';
 import { RequestFragmentStatus } from '../../../../config/signal.socket.event.webrtc';
+import { NodeRequestFragmentStatus } from '../../config/events';
 
 export default class FileTransferManager {
-    private readonly flowControlConfig: FlowControlConfig = {
-        maxBufferThreshold: CHUNK_SIZE * 5,
-        throttleCheckInterval: 50, // ms
-        maxTimeoutDuration: 10000, // 10 seconds max
-        minTimeoutDuration: 1000
+    private readonly backpressureConfig: BackpressureConfig = {
+        highWaterMark: CHUNK_SIZE * 16,
+        lowWaterMark: CHUNK_SIZE * 4,
+        stallTimeout: 10000 // 10 seconds without draining aborts the session
+    };
+
+    private metrics: TransferMetrics = {
+        sessionsCompleted: 0,
+        sessionsFailed: 0,
+        bytesSent: 0,
+        transferTimeMs: 0,
+        drainWaits: 0,
+        drainWaitMs: 0
     };
 
     private requestReporter: RequestReporter;
+    private scheduler: TransferScheduler;
+    private log: Logger;
+    // Keyed by session id so a client can resume after reconnecting with a new peer id,
+    // it then proves the session is its own with the resume token
+    private resumePoints: Map<string, ResumePoint> = new Map();
 
-    constructor(requestReporter: RequestReporter) {
+    constructor(requestReporter: RequestReporter, scheduler: TransferScheduler, log: Logger) {
         this.requestReporter = requestReporter;
+        this.scheduler = scheduler;
+        this.log = log;
     }
 
     public async startTransfer(
-        message: RequestNodeMessage,
+        message: RangedRequestNodeMessage,
         fromClientId: string,
         peerData: PeerConnectionData,
         onActivityUpdate: (clientId: string) => void
     ): Promise<void> {
+        this.pruneResumePoints();
+        const log = this.log.child({
+            peer_id: fromClientId,
+            session_id: message.session_id,
+            fragment_id: message.fragment_id
+        });
         this.requestReporter.reportRequestStats(
             fromClientId,
             message.fragment_id,
             RequestFragmentStatus.STARTING
         );
-        const fragmentPath = SettingUtils.getFragmentPath(message.fragment_id);
-        
-        if (!fragmentPath || !fs.existsSync(fragmentPath)) {
-            console.warn(`[WebRTC] Fragment ${message.fragment_id} not found for request from ${fromClientId}`);
+
+        if (this.scheduler.isDraining()) {
+            log.warn("Node is draining, rejecting session");
+            if (peerData.dataChannel && peerData.dataChannel.readyState === 'open') {
+                this.sendCancelMessage(
+                    peerData.dataChannel,
+                    message.session_id,
+                    message.fragment_id,
+                    DRAIN_CANCEL_REASON
+                );
+            }
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                message.fragment_id,
+                RequestFragmentStatus.CANCELED
+            );
+            return;
+        }
+
+        const fragmentPath = FragmentIndex.getPath(message.fragment_id);
+        const stored = fragmentPath ? await StorageUtils.stat(fragmentPath).catch(error => {
+            log.error("Error checking fragment", error);
+            return undefined;
+        }) : undefined;
+
+        if (!fragmentPath || !stored) {
+            log.warn("Requested fragment not found");
+            // Lets the requester give up right away instead of waiting for data that never comes
+            if (peerData.dataChannel?.readyState === 'open') {
+                this.sendCancelMessage(
+                    peerData.dataChannel,
+                    message.session_id,
+                    message.fragment_id,
+                    'Fragment not found'
+                );
+            }
             this.requestReporter.reportRequestStats(
                 fromClientId,
                 message.fragment_id,
@@ -47,7 +120,7 @@ export default class FileTransferManager {
         }
 
         if (!peerData.dataChannel || peerData.dataChannel.readyState !== 'open') {
-            console.warn(`[WebRTC] Data channel not open for ${fromClientId}`);
+            log.warn("Data channel not open");
             this.requestReporter.reportRequestStats(
                 fromClientId,
                 message.fragment_id,
@@ -56,8 +129,100 @@ export default class FileTransferManager {
             return;
         }
 
-        const fileSize = fs.statSync(fragmentPath).size;
+        const fileSize = stored.size;
+        const dataChannel = peerData.dataChannel;
+
+        const range = this.resolveRange(message.offset, message.length, fileSize);
+        if (!range) {
+            log.warn("Invalid range requested", { offset: message.offset, length: message.length, size: fileSize });
+            this.sendCancelMessage(
+                dataChannel,
+                message.session_id,
+                message.fragment_id,
+                'Requested range is not satisfiable'
+            );
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                message.fragment_id,
+                RequestFragmentStatus.FAILED
+            );
+            return;
+        }
+
+        const result = this.scheduler.schedule({
+            clientId: fromClientId,
+            sessionId: message.session_id,
+            fragmentId: message.fragment_id,
+            run: () => {
+                this.runTransfer(message, fromClientId, peerData, fragmentPath, range, onActivityUpdate)
+                    .catch(error => {
+                        log.error("Error starting session", error);
+                        this.scheduler.release(fromClientId, message.session_id);
+                    });
+            },
+            reject: (reason) => {
+                log.warn("Dropping queued session", { reason });
+                if (dataChannel.readyState === 'open') {
+                    this.sendCancelMessage(dataChannel, message.session_id, message.fragment_id, reason);
+                }
+                this.requestReporter.reportRequestStats(
+                    fromClientId,
+                    message.fragment_id,
+                    RequestFragmentStatus.CANCELED
+                );
+            }
+        });
+
+        if (result === 'queued') {
+            log.info("Queued session");
+            // Clients other than FragmentReceiver send no keepalives, so the wait must not count as inactivity
+            const keepaliveId = setInterval(() => {
+                if (this.scheduler.isQueued(fromClientId, message.session_id)) {
+                    onActivityUpdate(fromClientId);
+                } else {
+                    clearInterval(keepaliveId);
+                }
+            }, 5_000);
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                message.fragment_id,
+                NodeRequestFragmentStatus.QUEUED
+            );
+        } else if (result === 'rejected') {
+            log.warn("Transfer queue full, rejecting session");
+            this.sendCancelMessage(
+                dataChannel,
+                message.session_id,
+                message.fragment_id,
+                'Too many queued requests, try again later'
+            );
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                message.fragment_id,
+                RequestFragmentStatus.CANCELED
+            );
+        }
+    }
+
+    private async runTransfer(
+        message: RangedRequestNodeMessage,
+        fromClientId: string,
+        peerData: PeerConnectionData,
+        fragmentPath: string,
+        range: ByteRange,
+        onActivityUpdate: (clientId: string) => void
+    ): Promise<void> {
+        // The channel may have closed while the request was queued
         const dataChannel = peerData.dataChannel;
+        if (!dataChannel || dataChannel.readyState !== 'open') {
+            this.scheduler.release(fromClientId, message.session_id);
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                message.fragment_id,
+                RequestFragmentStatus.DATA_CHANNEL_CLOSED
+            );
+            return;
+        }
 
         // Initialize transfer sessions if not exists
         if (!peerData.transferSessions) {
@@ -67,7 +232,8 @@ export default class FileTransferManager {
         // Check system resources
         const canStart = await this.checkSystemResources(dataChannel);
         if (!canStart) {
-            await this.sendCancelMessage(
+            this.scheduler.release(fromClientId, message.session_id);
+            this.sendCancelMessage(
                 dataChannel,
                 message.session_id,
                 message.fragment_id,
@@ -85,8 +251,13 @@ export default class FileTransferManager {
             fragmentId: message.fragment_id,
             start: new Date(),
             status: 'in-progress',
-            totalBytes: fileSize,
-            sentBytes: 0
+            totalBytes: range.end - range.start,
+            sentBytes: 0,
+            startOffset: range.start,
+            sequence: 0,
+            hasher: createHash('blake2b', { digestLength: 32 }),
+            drainWaits: 0,
+            drainWaitMs: 0
         };
         this.requestReporter.reportRequestStats(
             fromClientId,
@@ -95,10 +266,22 @@ export default class FileTransferManager {
         );
 
         peerData.transferSessions.set(message.session_id, transferSession);
+        const resumePoint = this.saveResumePoint(message.session_id, fromClientId, message.fragment_id, range);
+        if (resumePoint) {
+            const started: SessionStartedMessage = {
+                type: TransferMessageType.SESSION_STARTED,
+                session_id: message.session_id,
+                fragment_id: message.fragment_id,
+                offset: range.start,
+                length: range.end - range.start,
+                resume_token: resumePoint.resumeToken
+            };
+            dataChannel.send(JSON.stringify(started));
+        }
 
         await this.streamFile(
             fragmentPath,
-            fileSize,
+            range,
             message.session_id,
             message.fragment_id,
             fromClientId,
@@ -109,40 +292,211 @@ export default class FileTransferManager {
         );
     }
 
+    public async resumeTransfer(
+        message: ResumeMessage,
+        fromClientId: string,
+        peerData: PeerConnectionData,
+        onActivityUpdate: (clientId: string) => void
+    ): Promise<void> {
+        const resumePoint = this.resumePoints.get(message.session_id);
+        if (resumePoint && resumePoint.clientId !== fromClientId && this.isResumeToken(resumePoint, message.resume_token)) {
+            // The client reconnected under a new peer id, its acknowledgements count from now on
+            this.log.info("Session moved to a new peer id", {
+                peer_id: fromClientId,
+                previous_peer_id: resumePoint.clientId,
+                session_id: message.session_id
+            });
+            resumePoint.clientId = fromClientId;
+        } else if (resumePoint && resumePoint.clientId !== fromClientId) {
+            this.log.warn("Rejecting resume of another peer's session", {
+                peer_id: fromClientId,
+                session_id: message.session_id,
+                fragment_id: message.fragment_id
+            });
+            if (peerData.dataChannel?.readyState === 'open') {
+                this.sendCancelMessage(
+                    peerData.dataChannel,
+                    message.session_id,
+                    message.fragment_id,
+                    'Session belongs to another peer'
+                );
+            }
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                message.fragment_id,
+                RequestFragmentStatus.FAILED
+            );
+            return;
+        }
+
+        // A half-open session with the same id must not keep writing into the channel,
+        // and a queued copy must not start once the resumed one is running
+        if (peerData.transferSessions?.has(message.session_id)) {
+            this.abortTransferSession(fromClientId, peerData, message.session_id);
+        }
+        this.scheduler.cancel(fromClientId, message.session_id);
+
+        let offset = message.offset;
+        let length: number | undefined;
+        if (resumePoint && resumePoint.fragmentId === message.fragment_id) {
+            offset = Math.min(
+                Math.max(offset ?? resumePoint.ackedOffset, resumePoint.start),
+                resumePoint.end
+            );
+            // 0 once everything was acknowledged, the session then only sends its digest again
+            length = resumePoint.end - offset;
+        }
+
+        this.log.info(`Resuming session from offset ${offset ?? 0}`, {
+            peer_id: fromClientId,
+            session_id: message.session_id,
+            fragment_id: message.fragment_id
+        });
+
+        await this.startTransfer(
+            {
+                type: DataChannelMessageType.READY_NODE,
+                session_id: message.session_id,
+                fragment_id: message.fragment_id,
+                offset,
+                length
+            },
+            fromClientId,
+            peerData,
+            onActivityUpdate
+        );
+    }
+
+    /**
+     * Records how far the peer has received a session. Fully acknowledged sessions are
+     * kept until they expire, so a late resume still gets the digest instead of an error.
+     */
+    public acknowledgeTransfer(clientId: string, sessionId: string, offset: number): void {
+        const resumePoint = this.resumePoints.get(sessionId);
+        if (!resumePoint || resumePoint.clientId !== clientId || !Number.isFinite(offset)) return;
+
+        resumePoint.ackedOffset = Math.max(resumePoint.ackedOffset, Math.min(offset, resumePoint.end));
+        resumePoint.updatedAt = Date.now();
+    }
+
+    /**
+     * A length of 0 selects an empty range, the session then only sends the digest
+     */
+    private resolveRange(offset: number | undefined, length: number | undefined, fileSize: number): ByteRange | undefined {
+        const start = offset ?? 0;
+        if (!Number.isInteger(start) || start < 0 || start > fileSize) {
+            return undefined;
+        }
+        if (length !== undefined && (!Number.isInteger(length) || length < 0)) {
+            return undefined;
+        }
+        // Starting at the end is only valid for an empty fragment or an empty range
+        if (start === fileSize && fileSize > 0 && length !== 0) {
+            return undefined;
+        }
+
+        const end = length === undefined ? fileSize : Math.min(start + length, fileSize);
+        return { start, end };
+    }
+
+    /**
+     * Returns the session's resume point, undefined when the id belongs to another peer
+     */
+    private saveResumePoint(sessionId: string, clientId: string, fragmentId: string, range: ByteRange): ResumePoint | undefined {
+        const existing = this.resumePoints.get(sessionId);
+        if (existing && existing.clientId !== clientId) {
+            // Another peer reused the id, the owner's resume point stays as it is
+            return undefined;
+        }
+        if (existing && existing.fragmentId === fragmentId) {
+            // Keep the original bounds so repeated resumes cannot extend the session
+            existing.updatedAt = Date.now();
+            return existing;
+        }
+
+        const resumePoint: ResumePoint = {
+            clientId,
+            fragmentId,
+            resumeToken: randomBytes(16).toString('hex'),
+            start: range.start,
+            end: range.end,
+            ackedOffset: range.start,
+            updatedAt: Date.now()
+        };
+        this.resumePoints.set(sessionId, resumePoint);
+        return resumePoint;
+    }
+
+    /**
+     * Fragments a client may still resume, a session keeps its resume point until it expires
+     */
+    public getResumableFragments(): Set<string> {
+        this.pruneResumePoints();
+        return new Set(Array.from(this.resumePoints.values()).map(resumePoint => resumePoint.fragmentId));
+    }
+
+    private isResumeToken(resumePoint: ResumePoint, token: string | undefined): boolean {
+        if (typeof token !== 'string') return false;
+
+        const expected = Buffer.from(resumePoint.resumeToken);
+        const given = Buffer.from(token);
+        return expected.length === given.length && timingSafeEqual(expected, given);
+    }
+
+    private pruneResumePoints(): void {
+        const now = Date.now();
+        this.resumePoints.forEach((resumePoint, sessionId) => {
+            if (now - resumePoint.updatedAt > RESUME_POINT_TTL) {
+                this.resumePoints.delete(sessionId);
+            }
+        });
+    }
+
     private async checkSystemResources(dataChannel: RTCDataChannel): Promise<boolean> {
         const { available, total } = await si.mem();
         const memoryPercentage = (available / total) * 100;
         const highBufferAmount = dataChannel.bufferedAmount > 10 * 1024 * 1024;
 
         if (memoryPercentage < 15 || highBufferAmount) {
-            console.warn(
-                `[WebRTC] Cannot start transfer: low memory (${memoryPercentage.toFixed(1)}%) or ` +
-                `high buffered amount (${(dataChannel.bufferedAmount / (1024 * 1024)).toFixed(2)}MB)`
-            );
+            this.log.warn("Cannot start transfer: low memory or high buffered amount", {
+                memory_available_percent: Number(memoryPercentage.toFixed(1)),
+                buffered_bytes: dataChannel.bufferedAmount
+            });
             return false;
         }
 
         return true;
     }
 
-    private async sendCancelMessage(
+    /**
+     * Best effort, the channel may close between the caller's state check and the send
+     */
+    private sendCancelMessage(
         dataChannel: RTCDataChannel,
         sessionId: string,
         fragmentId: string,
         error: string
-    ): Promise<void> {
+    ): void {
         const cancelMessage: CanceledMessage = {
             type: DataChannelMessageType.CANCELED,
             session_id: sessionId,
             fragment_id: fragmentId,
             error
         };
-        dataChannel.send(JSON.stringify(cancelMessage));
+        try {
+            dataChannel.send(JSON.stringify(cancelMessage));
+        } catch (sendError) {
+            this.log.warn("Could not send cancel message", {
+                session_id: sessionId,
+                fragment_id: fragmentId,
+                error: sendError instanceof Error ? sendError.message : String(sendError)
+            });
+        }
     }
 
     private async streamFile(
         fragmentPath: string,
-        fileSize: number,
+        range: ByteRange,
         sessionId: string,
         fragmentId: string,
         clientId: string,
@@ -151,181 +505,124 @@ export default class FileTransferManager {
         peerData: PeerConnectionData,
         onActivityUpdate: (clientId: string) => void
     ): Promise<void> {
-        const fileStream = fs.createReadStream(fragmentPath, {
-            highWaterMark: CHUNK_SIZE,
-            autoClose: true
-        });
-        transferSession.fileStream = fileStream;
-
         // Activity tracker
         const reportProgress = () => onActivityUpdate(clientId);
         const reportId = setInterval(reportProgress, 5_000);
 
-        // Pre-allocate buffers for headers
-        const idBuf = Buffer.from(sessionId);
-        const headerSize = 2 + idBuf.length;
+        if (!peerData.backpressure) {
+            peerData.backpressure = new ChannelBackpressure(dataChannel, this.backpressureConfig);
+        }
+        const backpressure = peerData.backpressure;
 
-        // Flow control variables
-        let flowPaused = false;
+        const idBuf = Buffer.from(sessionId);
+        const headerSize = getChunkHeaderSize(idBuf);
+        let reader: ChunkReader | undefined;
 
-        fileStream.on('data', async (chunk) => {
-            if (transferSession.canceled) return;
+        try {
+            // An empty range has nothing to read, the session only sends its digest
+            if (transferSession.totalBytes! > 0) {
+                reader = new ChunkReader(await StorageUtils.createReadStream(fragmentPath, range));
+            }
 
-            // Handle flow control
-            const shouldContinue = await this.handleFlowControl(
-                dataChannel,
-                fileStream,
-                flowPaused,
-                sessionId,
-                transferSession,
-                peerData,
-                reportId
-            );
+            // Pull one chunk at a time: read, frame and send strictly in order
+            while (transferSession.sentBytes! < transferSession.totalBytes! && !transferSession.canceled) {
+                if (backpressure.shouldWait()) {
+                    const waitStart = Date.now();
+                    const drained = await backpressure.waitForDrain();
+                    transferSession.drainWaits! += 1;
+                    transferSession.drainWaitMs! += Date.now() - waitStart;
+
+                    if (transferSession.canceled) break;
+                    if (!drained) {
+                        throw new Error(dataChannel.readyState === 'open'
+                            ? 'Transfer stalled, data channel did not drain'
+                            : 'Data channel closed during transfer');
+                    }
+                }
 
-            if (!shouldContinue) return;
-            flowPaused = dataChannel.bufferedAmount > this.flowControlConfig.maxBufferThreshold;
+                const length = Math.min(CHUNK_SIZE, transferSession.totalBytes! - transferSession.sentBytes!);
+                await this.scheduler.throttle(clientId, length);
+                if (transferSession.canceled) break;
 
-            // Send chunk
-            await this.sendChunk(
-                chunk,
-                dataChannel,
-                sessionId,
-                fileSize,
-                transferSession,
-                idBuf,
-                headerSize
-            );
-        });
+                const offset = transferSession.startOffset! + transferSession.sentBytes!;
+                const frame = Buffer.allocUnsafe(headerSize + length);
+                const bytesRead = await reader!.readInto(frame, headerSize, length);
+                if (bytesRead !== length) {
+                    throw new Error(`Fragment ended unexpectedly at offset ${offset + bytesRead}`);
+                }
+                if (transferSession.canceled) break;
 
-        fileStream.once('end', () => {
-            this.handleTransferComplete(
-                transferSession,
-                fragmentId,
-                clientId,
-                peerData,
-                sessionId,
-                reportId
-            );
-        });
+                this.frameChunk(frame, transferSession, idBuf, headerSize);
+                dataChannel.send(frame);
+                MetricsUtils.bytesServed.inc(length);
+            }
 
-        fileStream.on('error', (error) => {
+            clearInterval(reportId);
+            if (!transferSession.canceled) {
+                await this.handleTransferComplete(
+                    transferSession,
+                    fragmentPath,
+                    fragmentId,
+                    clientId,
+                    peerData,
+                    sessionId
+                );
+            }
+        } catch (error) {
+            clearInterval(reportId);
             this.handleTransferError(
-                error,
+                error instanceof Error ? error : new Error(String(error)),
                 transferSession,
                 fragmentId,
                 clientId,
                 peerData,
-                sessionId,
-                reportId
-            );
-        });
-    }
-
-    private async handleFlowControl(
-        dataChannel: RTCDataChannel,
-        fileStream: fs.ReadStream,
-        flowPaused: boolean,
-        sessionId: string,
-        transferSession: TransferSession,
-        peerData: PeerConnectionData,
-        reportId: NodeJS.Timeout
-    ): Promise<boolean> {
-        if (dataChannel.bufferedAmount <= this.flowControlConfig.maxBufferThreshold) {
-            return true;
-        }
-
-        if (!flowPaused) {
-            fileStream.pause();
-        }
-
-        // Dynamic timeout based on buffer size
-        const timeoutDuration = Math.min(
-            this.flowControlConfig.maxTimeoutDuration,
-            Math.max(
-                this.flowControlConfig.minTimeoutDuration,
-                dataChannel.bufferedAmount / 1024
-            )
-        );
-
-        const startTime = Date.now();
-        let timedOut = false;
-
-        const checkTimeout = () => {
-            const elapsed = Date.now() - startTime;
-            if (elapsed > timeoutDuration) {
-                timedOut = true;
-                clearInterval(reportId);
-                console.log(
-                    `[WebRTC] Transfer throttled too long (${elapsed}ms), aborting session ${sessionId}`
-                );
-                if (!transferSession.canceled) {
-                    transferSession.canceled = true;
-                    transferSession.status = 'failed';
-                    transferSession.end = new Date();
-                    transferSession.error = 'Transfer throttled too long';
-                    this.cleanupTransferSession(peerData, sessionId);
-                }
-                return true;
-            }
-            return false;
-        };
-
-        // Wait for buffer to drain or timeout
-        while (dataChannel.bufferedAmount > CHUNK_SIZE && !timedOut) {
-            if (checkTimeout()) break;
-            await new Promise(resolve => 
-                setTimeout(resolve, this.flowControlConfig.throttleCheckInterval)
+                sessionId
             );
+        } finally {
+            reader?.close();
         }
-
-        if (timedOut) return false;
-
-        fileStream.resume();
-        return true;
     }
 
-    private async sendChunk(
-        chunk: any,
-        dataChannel: RTCDataChannel,
-        sessionId: string,
-        fileSize: number,
+    /**
+     * Writes the header in front of the payload already read into `frame`
+     * and advances the session past it
+     */
+    private frameChunk(
+        frame: Buffer,
         transferSession: TransferSession,
         idBuf: Buffer,
         headerSize: number
-    ): Promise<void> {
-        const chunkBuffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
-        const isLastChunk = transferSession.sentBytes! + chunkBuffer.length >= fileSize;
-
-        // Create header
-        const header = Buffer.alloc(2);
-        header.writeUInt8(idBuf.length, 0);
-        header.writeUInt8(isLastChunk ? 1 : 0, 1);
-
-        // Allocate exact buffer size
-        const buffer = Buffer.allocUnsafe(headerSize + chunkBuffer.length);
-        header.copy(buffer, 0);
-        idBuf.copy(buffer, 2);
-        chunkBuffer.copy(buffer, headerSize);
-
-        // Send the data
-        dataChannel.send(buffer);
-        transferSession.sentBytes! += chunkBuffer.length;
+    ): void {
+        const payload = frame.subarray(headerSize);
+        const isLastChunk = transferSession.sentBytes! + payload.length >= transferSession.totalBytes!;
+        const offset = transferSession.startOffset! + transferSession.sentBytes!;
+
+        writeChunkHeader(
+            frame,
+            idBuf,
+            transferSession.sequence!,
+            offset,
+            crc32(payload),
+            isLastChunk
+        );
+
+        transferSession.hasher?.update(payload);
+        transferSession.sentBytes! += payload.length;
+        transferSession.sequence! += 1;
     }
 
-    private handleTransferComplete(
+    private async handleTransferComplete(
         transferSession: TransferSession,
+        fragmentPath: string,
         fragmentId: string,
         clientId: string,
         peerData: PeerConnectionData,
-        sessionId: string,
-        reportId: NodeJS.Timeout
-    ): void {
-        clearInterval(reportId);
-        if (transferSession.canceled) return;
-
+        sessionId: string
+    ): Promise<void> {
         transferSession.status = 'completed';
         transferSession.end = new Date();
-        const durationSec = (transferSession.end.getTime() - transferSession.start.getTime()) / 1000;
+        const durationMs = transferSession.end.getTime() - transferSession.start.getTime();
+        const durationSec = durationMs / 1000;
         transferSession.speedBytesPerSec = durationSec > 0 
             ? (transferSession.totalBytes || 0) / durationSec 
             : 0;
@@ -333,11 +630,17 @@ export default class FileTransferManager {
         const speedKBps = (transferSession.speedBytesPerSec! / 1024).toFixed(2);
         const sizeMB = (transferSession.totalBytes! / (1024 * 1024)).toFixed(2);
 
-        console.log(
-            `[WebRTC] Completed transfer of fragment ${fragmentId} (${sizeMB} MB) to ${clientId} ` +
-            `in ${durationSec.toFixed(2)} sec (${speedKBps} KB/s)`
-        );
-        this.cleanupTransferSession(peerData, sessionId);
+        this.log.info(`Completed transfer (${sizeMB} MB in ${durationSec.toFixed(2)} sec, ${speedKBps} KB/s)`, {
+            peer_id: clientId,
+            session_id: sessionId,
+            fragment_id: fragmentId,
+            drain_waits: transferSession.drainWaits,
+            drain_wait_ms: transferSession.drainWaitMs
+        });
+        this.recordMetrics(transferSession, durationMs);
+        FragmentIndex.touch(fragmentId);
+        await this.sendDigestMessage(peerData, sessionId, fragmentPath, fragmentId, transferSession);
+        this.cleanupTransferSession(clientId, peerData, sessionId);
 
         this.requestReporter.reportRequestStats(
             clientId,
@@ -346,23 +649,84 @@ export default class FileTransferManager {
         );
     }
 
+    private recordMetrics(transferSession: TransferSession, durationMs: number): void {
+        this.metrics.sessionsCompleted++;
+        this.metrics.bytesSent += transferSession.sentBytes || 0;
+        this.metrics.transferTimeMs += durationMs;
+        this.metrics.drainWaits += transferSession.drainWaits || 0;
+        this.metrics.drainWaitMs += transferSession.drainWaitMs || 0;
+
+        MetricsUtils.transferDuration.observe(durationMs / 1000);
+        MetricsUtils.transferThroughput.observe(transferSession.speedBytesPerSec || 0);
+        MetricsUtils.transferDrainWaits.inc(transferSession.drainWaits || 0);
+        MetricsUtils.transferDrainWaitSeconds.inc((transferSession.drainWaitMs || 0) / 1000);
+    }
+
+    /**
+     * Aggregated throughput of completed sessions since the node started
+     */
+    public getMetrics(): TransferMetrics & { averageBytesPerSec: number } {
+        const seconds = this.metrics.transferTimeMs / 1000;
+        return {
+            ...this.metrics,
+            averageBytesPerSec: seconds > 0 ? this.metrics.bytesSent / seconds : 0
+        };
+    }
+
+    private async sendDigestMessage(
+        peerData: PeerConnectionData,
+        sessionId: string,
+        fragmentPath: string,
+        fragmentId: string,
+        transferSession: TransferSession
+    ): Promise<void> {
+        const dataChannel = peerData.dataChannel;
+        if (!dataChannel || dataChannel.readyState !== 'open' || !transferSession.hasher) return;
+
+        try {
+            const rangeHash = transferSession.hasher.digest('hex');
+            const isFullFragment = transferSession.startOffset === 0 &&
+                transferSession.totalBytes === (await StorageUtils.stat(fragmentPath))?.size;
+            // A partial range only covers part of the fragment, so the full digest is computed from storage
+            const hash = isFullFragment ? rangeHash : await StorageUtils.hash(fragmentPath);
+
+            const digestMessage: FragmentDigestMessage = {
+                type: TransferMessageType.FRAGMENT_DIGEST,
+                session_id: sessionId,
+                fragment_id: fragmentId,
+                offset: transferSession.startOffset!,
+                length: transferSession.sentBytes!,
+                total_chunks: transferSession.sequence!,
+                hash: hash || '',
+                range_hash: rangeHash
+            };
+
+            dataChannel.send(JSON.stringify(digestMessage));
+        } catch (error) {
+            this.log.error("Error sending digest", error, { session_id: sessionId, fragment_id: fragmentId });
+        }
+    }
+
     private handleTransferError(
         error: Error,
         transferSession: TransferSession,
         fragmentId: string,
         clientId: string,
         peerData: PeerConnectionData,
-        sessionId: string,
-        reportId: NodeJS.Timeout
+        sessionId: string
     ): void {
-        clearInterval(reportId);
         if (transferSession.canceled) return;
 
         transferSession.status = 'failed';
         transferSession.end = new Date();
         transferSession.error = error.message;
-        console.error(`[WebRTC] Error reading fragment ${fragmentId} for ${clientId}:`, error);
-        this.cleanupTransferSession(peerData, sessionId);
+        this.log.error("Error sending fragment", error, {
+            peer_id: clientId,
+            session_id: sessionId,
+            fragment_id: fragmentId
+        });
+        this.metrics.sessionsFailed++;
+        this.cleanupTransferSession(clientId, peerData, sessionId);
 
         this.requestReporter.reportRequestStats(
             clientId,
@@ -372,6 +736,17 @@ export default class FileTransferManager {
     }
 
     public cancelTransfer(fromClientId: string, peerData: PeerConnectionData, sessionId: string): void {
+        const queued = this.scheduler.cancel(fromClientId, sessionId);
+        if (queued) {
+            this.resumePoints.delete(sessionId);
+            this.requestReporter.reportRequestStats(
+                fromClientId,
+                queued.fragmentId,
+                RequestFragmentStatus.CANCELED
+            );
+            return;
+        }
+
         if (!peerData.transferSessions) return;
 
         const session = peerData.transferSessions.get(sessionId);
@@ -379,7 +754,8 @@ export default class FileTransferManager {
             session.canceled = true;
             session.status = 'canceled';
             session.end = new Date();
-            this.cleanupTransferSession(peerData, sessionId);
+            this.cleanupTransferSession(fromClientId, peerData, sessionId);
+            this.resumePoints.delete(sessionId);
 
             this.requestReporter.reportRequestStats(
                 fromClientId,
@@ -389,16 +765,64 @@ export default class FileTransferManager {
         }
     }
 
-    private cleanupTransferSession(peerData: PeerConnectionData, sessionId: string): void {
+    /**
+     * Cancels a running or queued session on the node's own initiative and tells the client why
+     */
+    public abortTransfer(clientId: string, peerData: PeerConnectionData, sessionId: string, reason: string): boolean {
+        const queued = this.scheduler.cancel(clientId, sessionId);
+        const fragmentId = queued?.fragmentId ?? peerData.transferSessions?.get(sessionId)?.fragmentId;
+        if (!fragmentId) return false;
+
+        if (!queued) {
+            this.abortTransferSession(clientId, peerData, sessionId);
+        }
+        this.resumePoints.delete(sessionId);
+
+        if (peerData.dataChannel && peerData.dataChannel.readyState === 'open') {
+            this.sendCancelMessage(peerData.dataChannel, sessionId, fragmentId, reason);
+        }
+        this.requestReporter.reportRequestStats(
+            clientId,
+            fragmentId,
+            RequestFragmentStatus.CANCELED
+        );
+        return true;
+    }
+
+    /**
+     * Stops every session of a peer that is going away and frees its scheduler slots
+     */
+    public cleanupPeer(clientId: string, peerData: PeerConnectionData): void {
+        if (peerData.transferSessions) {
+            peerData.transferSessions.forEach(session => {
+                session.canceled = true;
+            });
+            peerData.transferSessions.clear();
+        }
+        peerData.backpressure?.close();
+        this.scheduler.removePeer(clientId);
+    }
+
+    private abortTransferSession(clientId: string, peerData: PeerConnectionData, sessionId: string): void {
+        const session = peerData.transferSessions?.get(sessionId);
+        if (!session) return;
+
+        session.canceled = true;
+        session.status = 'canceled';
+        session.end = new Date();
+        this.cleanupTransferSession(clientId, peerData, sessionId);
+    }
+
+    private cleanupTransferSession(clientId: string, peerData: PeerConnectionData, sessionId: string): void {
+        this.scheduler.release(clientId, sessionId);
         if (!peerData.transferSessions) return;
 
         const session = peerData.transferSessions.get(sessionId);
         if (session) {
-            if (session.fileStream) {
-                session.fileStream.destroy();
-            }
+            // The read loop stops at its next step and closes the file itself
+            session.canceled = true;
             peerData.transferSessions.delete(sessionId);
-            console.log(`[WebRTC] Cleaned up transfer session: ${sessionId}`);
+            this.log.debug("Cleaned up transfer session", { peer_id: clientId, session_id: sessionId });
         }
     }
 }
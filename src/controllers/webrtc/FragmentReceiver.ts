@@ -0,0 +1,302 @@
+import { RTCDataChannel } from '@roamhq/wrtc';
+import * as fs from 'fs';
+import { randomBytes, randomUUID } from 'crypto';
+import { createHash } from 'blake2';
+import { DataChannelMessageType } from '../../../../config/signal.socket.event.webrtc';
+import type { RequestNodeMessage, CanceledMessage } from '../../../../types/signal';
+import { RECEIVE_START_TIMEOUT, RECEIVE_IDLE_TIMEOUT, RECEIVE_KEEPALIVE_INTERVAL } from '../../config/constants';
+import Logger from '../../utils/logger';
+import type { AckMessage, FragmentDigestMessage, FragmentReceiveOptions, ReceivedFragment, ReceiveSession, ReceiveFailureReason } from './types';
+import { TransferMessageType, readChunkHeader, crc32 } from './protocol';
+
+export class ReceiveError extends Error {
+    public readonly reason: ReceiveFailureReason;
+
+    constructor(reason: ReceiveFailureReason, message: string) {
+        super(message);
+        this.reason = reason;
+    }
+}
+
+/**
+ * Receiving half of the transfer protocol on a data channel this node opened to
+ * another node. Several fragments may be requested over the same channel, chunks
+ * are told apart by their session id.
+ */
+export default class FragmentReceiver {
+    private dataChannel: RTCDataChannel;
+    private log: Logger;
+    private onActivity: () => void;
+    private sessions: Map<string, ReceiveSession> = new Map();
+    private keepaliveId: NodeJS.Timeout | null = null;
+    private closed = false;
+
+    constructor(dataChannel: RTCDataChannel, log: Logger, onActivity: () => void) {
+        this.dataChannel = dataChannel;
+        this.log = log;
+        this.onActivity = onActivity;
+
+        dataChannel.binaryType = 'arraybuffer';
+        dataChannel.onmessage = (event) => {
+            this.onActivity();
+            this.handleMessage(event.data);
+        };
+        dataChannel.onclose = () => {
+            this.close('Data channel closed');
+        };
+        dataChannel.onerror = (error) => {
+            this.log.error("Data channel error", error);
+        };
+    }
+
+    public isOpen(): boolean {
+        return !this.closed && this.dataChannel.readyState === 'open';
+    }
+
+    public getPendingCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Requests the whole fragment and writes it to a temp file of its own next to
+     * `destination`, renamed to it once every chunk and the digest have been verified
+     */
+    public async receive(options: FragmentReceiveOptions): Promise<ReceivedFragment> {
+        if (!this.isOpen()) {
+            throw new ReceiveError('transfer_failed', "Data channel is not open");
+        }
+
+        const sessionId = randomUUID();
+        const tmpPath = `${options.destination}.${randomBytes(6).toString('hex')}.tmp`;
+        const fileHandle = await fs.promises.open(tmpPath, 'w');
+
+        const result = new Promise<ReceivedFragment>((resolve, reject) => {
+            const session: ReceiveSession = {
+                sessionId,
+                options,
+                tmpPath,
+                fileHandle,
+                hasher: createHash('blake2b', { digestLength: 32 }),
+                writes: Promise.resolve(),
+                nextSequence: 0,
+                receivedBytes: 0,
+                resolve,
+                reject
+            };
+            this.sessions.set(sessionId, session);
+            this.resetTimeout(session, RECEIVE_START_TIMEOUT);
+        });
+        this.startKeepalive();
+
+        const request: RequestNodeMessage = {
+            type: DataChannelMessageType.READY_NODE,
+            session_id: sessionId,
+            fragment_id: options.fragmentId
+        };
+        this.dataChannel.send(JSON.stringify(request));
+        this.log.info("Requested fragment", { session_id: sessionId, fragment_id: options.fragmentId });
+
+        return result;
+    }
+
+    /**
+     * Fails every pending session, used when the channel or the peer goes away
+     */
+    public close(reason: string): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.stopKeepalive();
+        Array.from(this.sessions.values()).forEach(session => this.fail(session, new ReceiveError('transfer_failed', reason)));
+    }
+
+    private handleMessage(data: string | ArrayBuffer): void {
+        try {
+            if (typeof data === 'string') {
+                const message = JSON.parse(data);
+                const session = this.sessions.get(message.session_id);
+                if (!session) return;
+
+                switch (message.type) {
+                    case TransferMessageType.SESSION_STARTED:
+                        // Sessions are never resumed from here, a failed one is requested again
+                        break;
+                    case TransferMessageType.FRAGMENT_DIGEST:
+                        this.handleDigest(session, message as FragmentDigestMessage);
+                        break;
+                    case DataChannelMessageType.CANCELED:
+                        this.fail(session, new ReceiveError('transfer_failed', `Canceled by the sender: ${(message as CanceledMessage).error || 'no reason given'}`), false);
+                        break;
+                    default:
+                        this.log.warn(`Unknown message type: ${message.type}`, { session_id: message.session_id });
+                }
+            } else {
+                this.handleChunk(Buffer.from(data));
+            }
+        } catch (error) {
+            this.log.error("Error handling data channel message", error);
+        }
+    }
+
+    private handleChunk(frame: Buffer): void {
+        const header = readChunkHeader(frame);
+        if (!header) {
+            this.log.warn("Dropping frame with an unknown format", { bytes: frame.length });
+            return;
+        }
+        const session = this.sessions.get(header.sessionId);
+        if (!session) return;
+
+        const payload = frame.subarray(header.headerSize);
+        if (header.sequence !== session.nextSequence || header.offset !== session.receivedBytes) {
+            this.fail(session, new ReceiveError('transfer_failed', `Chunk ${header.sequence} at offset ${header.offset} arrived out of order`));
+            return;
+        }
+        if (crc32(payload) !== header.checksum) {
+            this.fail(session, new ReceiveError('transfer_failed', `Chunk ${header.sequence} at offset ${header.offset} failed its checksum`));
+            return;
+        }
+
+        const { expectedSize, maxBytes } = session.options;
+        const end = header.offset + payload.length;
+        if (expectedSize !== undefined && end > expectedSize) {
+            this.fail(session, new ReceiveError('size_mismatch', `Chunk ${header.sequence} ends at ${end} bytes, expected ${expectedSize}`));
+            return;
+        }
+        if (maxBytes !== undefined && end > maxBytes) {
+            this.fail(session, new ReceiveError('storage_failed', `Chunk ${header.sequence} ends at ${end} bytes, only ${maxBytes} are reserved`));
+            return;
+        }
+
+        session.nextSequence++;
+        session.receivedBytes += payload.length;
+        session.hasher.update(payload);
+        session.writes = session.writes.then(async () => {
+            if (session.writeError) return;
+            await session.fileHandle.write(payload, 0, payload.length, header.offset);
+        }).catch(error => {
+            session.writeError = new ReceiveError('storage_failed', `Writing chunk ${header.sequence} failed: ${error instanceof Error ? error.message : String(error)}`);
+            this.fail(session, session.writeError);
+        });
+        session.options.onProgress?.(session.receivedBytes);
+        this.resetTimeout(session, RECEIVE_IDLE_TIMEOUT);
+    }
+
+    private async handleDigest(session: ReceiveSession, digest: FragmentDigestMessage): Promise<void> {
+        const hash = session.hasher.digest('hex');
+        const { expectedHash, expectedSize } = session.options;
+
+        let error: ReceiveError | undefined;
+        if (digest.offset !== 0 || digest.length !== session.receivedBytes || digest.total_chunks !== session.nextSequence) {
+            error = new ReceiveError('transfer_failed', `Sender reported ${digest.length} bytes in ${digest.total_chunks} chunks, received ${session.receivedBytes} in ${session.nextSequence}`);
+        } else if (digest.range_hash !== hash || (digest.hash && digest.hash !== hash)) {
+            error = new ReceiveError('hash_mismatch', `Hash ${hash} does not match the sender's digest ${digest.range_hash}`);
+        } else if (expectedHash && expectedHash.toLowerCase() !== hash) {
+            error = new ReceiveError('hash_mismatch', `Hash ${hash} does not match expected ${expectedHash}`);
+        } else if (expectedSize !== undefined && expectedSize !== session.receivedBytes) {
+            error = new ReceiveError('size_mismatch', `Received ${session.receivedBytes} bytes, expected ${expectedSize}`);
+        }
+        if (error) {
+            this.fail(session, error, false);
+            return;
+        }
+
+        this.finish(session);
+        try {
+            await session.writes;
+            if (session.writeError) {
+                throw session.writeError;
+            }
+            await session.fileHandle.close();
+            await fs.promises.rename(session.tmpPath, session.options.destination);
+        } catch (error) {
+            await fs.promises.unlink(session.tmpPath).catch(() => undefined);
+            session.reject(new ReceiveError('storage_failed', error instanceof Error ? error.message : String(error)));
+            return;
+        }
+
+        this.sendAck(session);
+        session.resolve({
+            fragmentId: session.options.fragmentId,
+            path: session.options.destination,
+            size: session.receivedBytes,
+            hash
+        });
+    }
+
+    /**
+     * Drops the session and its partial file, and tells the sender to stop unless it already has
+     */
+    private fail(session: ReceiveSession, error: ReceiveError, notifySender: boolean = true): void {
+        if (!this.sessions.has(session.sessionId)) return;
+        this.finish(session);
+
+        if (notifySender && this.dataChannel.readyState === 'open') {
+            const cancelMessage: CanceledMessage = {
+                type: DataChannelMessageType.CANCELED,
+                session_id: session.sessionId,
+                fragment_id: session.options.fragmentId,
+                error: error.message
+            };
+            this.dataChannel.send(JSON.stringify(cancelMessage));
+        }
+
+        session.writes
+            .catch(() => undefined)
+            .then(() => session.fileHandle.close())
+            .catch(() => undefined)
+            .then(() => fs.promises.unlink(session.tmpPath))
+            .catch(() => undefined)
+            .then(() => session.reject(error));
+    }
+
+    private finish(session: ReceiveSession): void {
+        if (session.timeoutId) {
+            clearTimeout(session.timeoutId);
+        }
+        this.sessions.delete(session.sessionId);
+        if (this.sessions.size === 0) {
+            this.stopKeepalive();
+        }
+    }
+
+    private resetTimeout(session: ReceiveSession, timeoutMs: number): void {
+        if (session.timeoutId) {
+            clearTimeout(session.timeoutId);
+        }
+        session.timeoutId = setTimeout(() => {
+            this.fail(session, new ReceiveError('transfer_failed', `No data received for ${timeoutMs / 1000} seconds`));
+        }, timeoutMs);
+    }
+
+    private sendAck(session: ReceiveSession): void {
+        if (this.dataChannel.readyState !== 'open') return;
+
+        const ack: AckMessage = {
+            type: TransferMessageType.ACK,
+            session_id: session.sessionId,
+            offset: session.receivedBytes
+        };
+        this.dataChannel.send(JSON.stringify(ack));
+    }
+
+    /**
+     * Acknowledges progress while sessions are pending. This also keeps both ends from
+     * closing the connection as inactive while the sender has the request queued.
+     */
+    private startKeepalive(): void {
+        if (this.keepaliveId) return;
+
+        this.keepaliveId = setInterval(() => {
+            if (this.dataChannel.readyState !== 'open') return;
+            this.sessions.forEach(session => this.sendAck(session));
+            this.onActivity();
+        }, RECEIVE_KEEPALIVE_INTERVAL);
+    }
+
+    private stopKeepalive(): void {
+        if (this.keepaliveId) {
+            clearInterval(this.keepaliveId);
+            this.keepaliveId = null;
+        }
+    }
+}
@@ -3,12 +3,13 @@ import { RTCPeerConnection, RTCSessionDescription, RTCIceCandidate } from '@roam
 import * as RTC from '../../../../config/signal.socket.event.webrtc';
 import type { WebRTCAnswer, WebRTCOffer, WebRTCIceCandidate } from '../../../../types/signal';
 import SettingUtils from '../../utils/setting';
-import type { PeerConnectionData } from './types';
+import type { PeerConnectionData, TransferSessionInfo } from './types';
 import DataChannelHandler from './DataChannelHandler';
 import StatsReporter from './StatsReporter';
+import Logger from '../../utils/logger';
 
 // WebRTC Configuration
-const ICE_SERVERS: RTCIceServer[] = SettingUtils.getIceServers() || [
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
     { urls: 'stun:stun.l.google.com:19302' },
     { urls: 'stun:stun1.l.google.com:19302' },
     { urls: 'stun:stun2.l.google.com:19302' },
@@ -16,26 +17,33 @@ const ICE_SERVERS: RTCIceServer[] = SettingUtils.getIceServers() || [
     { urls: 'stun:stun4.l.google.com:19302' }
 ];
 
-const RTC_CONFIG: RTCConfiguration = {
-    iceServers: ICE_SERVERS,
-    iceCandidatePoolSize: 5
-};
+// Read for every new connection so reloaded ICE servers apply without a restart
+function getRtcConfig(): RTCConfiguration {
+    return {
+        iceServers: SettingUtils.getIceServers() || DEFAULT_ICE_SERVERS,
+        iceCandidatePoolSize: 5
+    };
+}
 
 export default class PeerConnectionManager {
     private socket: Socket;
     private peerConnections: Map<string, PeerConnectionData> = new Map();
     private dataChannelHandler: DataChannelHandler;
     private statsReporter: StatsReporter;
+    private log: Logger;
     private readonly INACTIVITY_TIMEOUT = 10000; // 10 seconds
+    private inactivityCheckerId: NodeJS.Timeout | null = null;
 
     constructor(
         socket: Socket,
         dataChannelHandler: DataChannelHandler,
-        statsReporter: StatsReporter
+        statsReporter: StatsReporter,
+        log: Logger
     ) {
         this.socket = socket;
         this.dataChannelHandler = dataChannelHandler;
         this.statsReporter = statsReporter;
+        this.log = log;
         this.startInactivityChecker();
     }
 
@@ -43,7 +51,7 @@ export default class PeerConnectionManager {
         remoteId: string,
         onActivityUpdate: (clientId: string) => void
     ): PeerConnectionData {
-        const peerConnection = new RTCPeerConnection(RTC_CONFIG);
+        const peerConnection = new RTCPeerConnection(getRtcConfig());
 
         const peerData: PeerConnectionData = {
             connection: peerConnection,
@@ -60,12 +68,12 @@ export default class PeerConnectionManager {
                     candidate: event.candidate.toJSON()
                 };
                 this.socket.emit(RTC.ICE_CANDIDATE, candidateMessage);
-                console.log(`[WebRTC] Sent ICE candidate to client: ${remoteId}`);
+                this.log.debug("Sent ICE candidate", { peer_id: remoteId });
             }
         };
 
         // Set up stats reporting
-        const statsIntervalId = setInterval(
+        peerData.statsIntervalId = setInterval(
             async () => {
                 const stats = await this.statsReporter.reportPeerStats(
                     peerConnection,
@@ -79,9 +87,7 @@ export default class PeerConnectionManager {
 
         // Handle connection state changes
         peerConnection.onconnectionstatechange = () => {
-            console.log(
-                `[WebRTC] Connection state with ${remoteId}: ${peerConnection.connectionState}`
-            );
+            this.log.info(`Connection state changed to ${peerConnection.connectionState}`, { peer_id: remoteId });
 
             if (peerConnection.connectionState === 'connected') {
                 onActivityUpdate(remoteId);
@@ -90,8 +96,6 @@ export default class PeerConnectionManager {
                 peerConnection.connectionState === 'disconnected' ||
                 peerConnection.connectionState === 'closed'
             ) {
-                clearInterval(statsIntervalId);
-                this.statsReporter.reportPeerStats(peerConnection, remoteId, undefined, true);
                 this.cleanup(remoteId);
             }
         };
@@ -167,6 +171,10 @@ export default class PeerConnectionManager {
         return peerData ? peerData.connection.connectionState : null;
     }
 
+    public getPeerCount(): number {
+        return this.peerConnections.size;
+    }
+
     public getConnectedPeers(): string[] {
         const connectedPeers: string[] = [];
         this.peerConnections.forEach((peerData, clientId) => {
@@ -177,6 +185,24 @@ export default class PeerConnectionManager {
         return connectedPeers;
     }
 
+    public getTransferSessions(): TransferSessionInfo[] {
+        const sessions: TransferSessionInfo[] = [];
+        this.peerConnections.forEach((peerData, clientId) => {
+            peerData.transferSessions?.forEach((session, sessionId) => {
+                sessions.push({
+                    clientId,
+                    sessionId,
+                    fragmentId: session.fragmentId,
+                    start: session.start,
+                    totalBytes: session.totalBytes || 0,
+                    sentBytes: session.sentBytes || 0,
+                    startOffset: session.startOffset || 0
+                });
+            });
+        });
+        return sessions;
+    }
+
     public updateLastActivity(clientId: string): void {
         const peerData = this.peerConnections.get(clientId);
         if (peerData) {
@@ -189,7 +215,7 @@ export default class PeerConnectionManager {
 
             // Set new timeout
             peerData.timeoutId = setTimeout(() => {
-                console.log(`[WebRTC] Connection with ${clientId} timed out due to inactivity`);
+                this.log.info("Connection timed out due to inactivity", { peer_id: clientId });
                 this.cleanup(clientId);
             }, this.INACTIVITY_TIMEOUT);
         }
@@ -203,16 +229,16 @@ export default class PeerConnectionManager {
                 clearTimeout(peerData.timeoutId);
             }
 
-            // Cleanup transfer sessions
-            if (peerData.transferSessions) {
-                peerData.transferSessions.forEach((session, sessionId) => {
-                    if (session.fileStream) {
-                        session.fileStream.destroy();
-                    }
-                });
-                peerData.transferSessions.clear();
+            // Stop stats reporting and tell the server the peer is gone
+            if (peerData.statsIntervalId) {
+                clearInterval(peerData.statsIntervalId);
+                this.statsReporter.reportPeerStats(peerData.connection, clientId, undefined, true)
+                    .catch(() => undefined);
             }
 
+            // Cleanup transfer sessions
+            this.dataChannelHandler.handlePeerClosed(clientId, peerData);
+
             // Close data channel
             if (peerData.dataChannel) {
                 peerData.dataChannel.close();
@@ -224,7 +250,7 @@ export default class PeerConnectionManager {
             // Remove from map
             this.peerConnections.delete(clientId);
 
-            console.log(`[WebRTC] Cleaned up peer connection for client: ${clientId}`);
+            this.log.info("Cleaned up peer connection", { peer_id: clientId });
         }
     }
 
@@ -233,16 +259,40 @@ export default class PeerConnectionManager {
             this.cleanup(clientId);
         });
         this.peerConnections.clear();
-        console.log('[WebRTC] All peer connections cleaned up');
+        this.log.debug("All peer connections cleaned up");
+    }
+
+    /**
+     * Sends one last stats report for every peer, covering traffic since the previous one
+     */
+    public async reportFinalStats(): Promise<void> {
+        await Promise.all(Array.from(this.peerConnections.entries()).map(async ([clientId, peerData]) => {
+            try {
+                peerData.stats = await this.statsReporter.reportPeerStats(peerData.connection, clientId, peerData.stats);
+            } catch {
+                // Already logged by the reporter
+            }
+        }));
+    }
+
+    /**
+     * Closes every peer and stops the inactivity checker, the manager is unusable afterwards
+     */
+    public destroy(): void {
+        if (this.inactivityCheckerId) {
+            clearInterval(this.inactivityCheckerId);
+            this.inactivityCheckerId = null;
+        }
+        this.cleanupAll();
     }
 
     private startInactivityChecker(): void {
         // Check for inactive connections every 5 seconds
-        setInterval(() => {
+        this.inactivityCheckerId = setInterval(() => {
             const now = Date.now();
             this.peerConnections.forEach((peerData, clientId) => {
                 if (now - peerData.lastActivity > this.INACTIVITY_TIMEOUT) {
-                    console.log(`[WebRTC] Cleaning up inactive connection with ${clientId}`);
+                    this.log.info("Cleaning up inactive connection", { peer_id: clientId });
                     this.cleanup(clientId);
                 }
             });
@@ -3,6 +3,8 @@ import type { RequestFragmentStats } from '../../../../types/signal';
 import type { PeerConnectionData } from './types';
 import { RequestFragmentStatus } from '../../../../config/signal.socket.event.webrtc';
 import { CLIENT_REQUEST_STATS } from '../../../../config/signal.socket.event.node';
+import { NodeRequestFragmentStatus } from '../../config/events';
+import MetricsUtils from '../../utils/metrics';
 
 export default class RequestReporter {
     private socket: Socket;
@@ -11,14 +13,22 @@ export default class RequestReporter {
         this.socket = socket;
     }
 
-    public reportRequestStats(clientId: string, fragmentId: string, status: RequestFragmentStatus, start?: Date, end?: Date): void {
-        const request: RequestFragmentStats = {
+    public reportRequestStats(
+        clientId: string,
+        fragmentId: string,
+        status: RequestFragmentStatus | NodeRequestFragmentStatus,
+        start?: Date,
+        end?: Date
+    ): void {
+        const request = {
             clientId,
             fragmentId,
             status,
             start,
             end,
-        };
+        } as RequestFragmentStats;
+
+        MetricsUtils.transfers.inc(1, { status });
 
         this.socket.emit(CLIENT_REQUEST_STATS, request);
         return;
@@ -2,13 +2,19 @@ import { Socket } from 'socket.io-client';
 import { RTCPeerConnection } from '@roamhq/wrtc';
 import type { PeerStats } from '../../../../types/signal';
 import NetworkUtils from '../../utils/network';
+import MetricsUtils from '../../utils/metrics';
+import Logger from '../../utils/logger';
 import { PEER_STATS } from '../../../../config/signal.socket.event.webrtc';
 
 export default class StatsReporter {
     private socket: Socket;
+    private log: Logger;
+    // Cumulative data channel counters per peer as of the last report, for metric deltas
+    private channelTotals: Map<string, { sent: number, received: number }> = new Map();
 
-    constructor(socket: Socket) {
+    constructor(socket: Socket, log: Logger) {
         this.socket = socket;
+        this.log = log;
     }
 
     public async reportPeerStats(
@@ -27,6 +33,7 @@ export default class StatsReporter {
             };
 
             if (isDisconnected) {
+                this.channelTotals.delete(remoteId);
                 this.socket.emit(PEER_STATS, peerStats);
                 return peerStats;
             }
@@ -41,6 +48,7 @@ export default class StatsReporter {
                 if (s.type === 'data-channel' && s.state === 'open') {
                     peerStats.bytesSent = s.bytesSent - (oldPeerStats?.bytesSent || 0);
                     peerStats.bytesReceived = s.bytesReceived - (oldPeerStats?.bytesReceived || 0);
+                    this.recordChannelTotals(remoteId, s.bytesSent, s.bytesReceived);
                 }
 
                 if (s.type === 'remote-candidate') {
@@ -66,11 +74,21 @@ export default class StatsReporter {
                 }
             });
 
+            if (peerStats.rtt >= 0) {
+                MetricsUtils.peerRtt.observe(peerStats.rtt / 1000);
+            }
             this.socket.emit(PEER_STATS, peerStats);
             return peerStats;
         } catch (error) {
-            console.error(`[WebRTC] Error getting stats for ${remoteId}:`, error);
+            this.log.error("Error getting stats", error, { peer_id: remoteId });
             throw error;
         }
     }
+
+    private recordChannelTotals(remoteId: string, sent: number, received: number): void {
+        const previous = this.channelTotals.get(remoteId) || { sent: 0, received: 0 };
+        MetricsUtils.peerBytesSent.inc(Math.max(0, sent - previous.sent));
+        MetricsUtils.peerBytesReceived.inc(Math.max(0, received - previous.received));
+        this.channelTotals.set(remoteId, { sent, received });
+    }
 }
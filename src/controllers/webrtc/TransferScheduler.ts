@@ -0,0 +1,259 @@
+import type { TransferLimits } from '../../types';
+import type { ScheduledTransfer } from './types';
+
+export type ScheduleResult = 'started' | 'queued' | 'rejected';
+
+/**
+ * Token bucket that lets consumers go into debt and then wait it off,
+ * so concurrent senders are served in the order they asked.
+ */
+class TokenBucket {
+    private rate: number;
+    private tokens: number;
+    private lastRefill: number = Date.now();
+
+    constructor(rate: number) {
+        this.rate = rate;
+        this.tokens = rate;
+    }
+
+    public async consume(amount: number): Promise<void> {
+        if (this.rate <= 0) return;
+
+        this.refill();
+        this.tokens -= amount;
+
+        if (this.tokens < 0) {
+            const waitMs = (-this.tokens / this.rate) * 1000;
+            await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+    }
+
+    /**
+     * Changes the rate in place, debt carries over and only the burst shrinks with the rate
+     */
+    public setRate(rate: number): void {
+        this.refill();
+        this.rate = rate;
+        this.tokens = Math.min(this.tokens, rate);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        if (this.rate > 0) {
+            this.tokens = Math.min(this.rate, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+        }
+        this.lastRefill = now;
+    }
+}
+
+export default class TransferScheduler {
+    private limits: TransferLimits;
+    private active: Map<string, Set<string>> = new Map();
+    private activeCount = 0;
+    private queues: Map<string, ScheduledTransfer[]> = new Map();
+    // Peers with queued work, rotated on every dispatch for round-robin fairness
+    private peerOrder: string[] = [];
+    private globalBucket: TokenBucket;
+    private peerBuckets: Map<string, TokenBucket> = new Map();
+    private draining = false;
+    private idleWaiters: Set<() => void> = new Set();
+
+    constructor(limits: TransferLimits) {
+        this.limits = limits;
+        this.globalBucket = new TokenBucket(limits.max_upload_rate);
+    }
+
+    /**
+     * Applies new limits, running transfers keep their slot even if the new limits are lower.
+     * The buckets are updated rather than replaced, so a reload does not forgive sent bytes.
+     */
+    public setLimits(limits: TransferLimits): void {
+        this.limits = limits;
+        this.globalBucket.setRate(limits.max_upload_rate);
+        this.peerBuckets.forEach(bucket => bucket.setRate(limits.max_upload_rate_per_peer));
+        this.dispatch();
+    }
+
+    public schedule(transfer: ScheduledTransfer): ScheduleResult {
+        if (this.canStart(transfer.clientId)) {
+            this.start(transfer);
+            return 'started';
+        }
+
+        const queue = this.queues.get(transfer.clientId) || [];
+        if (queue.length >= this.limits.max_queued_per_peer) {
+            return 'rejected';
+        }
+
+        queue.push(transfer);
+        this.queues.set(transfer.clientId, queue);
+        if (!this.peerOrder.includes(transfer.clientId)) {
+            this.peerOrder.push(transfer.clientId);
+        }
+        return 'queued';
+    }
+
+    public release(clientId: string, sessionId: string): void {
+        const sessions = this.active.get(clientId);
+        if (!sessions || !sessions.delete(sessionId)) return;
+
+        this.activeCount--;
+        if (sessions.size === 0) {
+            this.active.delete(clientId);
+        }
+        this.dispatch();
+        this.notifyIfIdle();
+    }
+
+    /**
+     * Removes a queued transfer, returns it if it had not started yet
+     */
+    public cancel(clientId: string, sessionId: string): ScheduledTransfer | undefined {
+        const queue = this.queues.get(clientId);
+        if (!queue) return undefined;
+
+        const index = queue.findIndex(transfer => transfer.sessionId === sessionId);
+        if (index === -1) return undefined;
+
+        const [transfer] = queue.splice(index, 1);
+        if (queue.length === 0) {
+            this.removeQueue(clientId);
+        }
+        return transfer;
+    }
+
+    public isQueued(clientId: string, sessionId: string): boolean {
+        return this.queues.get(clientId)?.some(transfer => transfer.sessionId === sessionId) ?? false;
+    }
+
+    public removePeer(clientId: string): void {
+        this.removeQueue(clientId);
+        this.peerBuckets.delete(clientId);
+
+        const sessions = this.active.get(clientId);
+        if (sessions) {
+            this.activeCount -= sessions.size;
+            this.active.delete(clientId);
+            this.dispatch();
+            this.notifyIfIdle();
+        }
+    }
+
+    /**
+     * Stops accepting work: every queued transfer is rejected with `reason`,
+     * running transfers are left to finish
+     */
+    public drain(reason: string): void {
+        this.draining = true;
+
+        const queued: ScheduledTransfer[] = [];
+        this.queues.forEach(queue => queued.push(...queue));
+        this.queues.clear();
+        this.peerOrder = [];
+        queued.forEach(transfer => transfer.reject(reason));
+        this.notifyIfIdle();
+    }
+
+    public isDraining(): boolean {
+        return this.draining;
+    }
+
+    /**
+     * Resolves true once no transfer is running, false if that takes longer than `timeoutMs`
+     */
+    public waitForIdle(timeoutMs: number): Promise<boolean> {
+        if (this.activeCount === 0) {
+            return Promise.resolve(true);
+        }
+
+        return new Promise(resolve => {
+            const timeoutId = setTimeout(() => {
+                this.idleWaiters.delete(waiter);
+                resolve(false);
+            }, timeoutMs);
+
+            const waiter = () => {
+                clearTimeout(timeoutId);
+                resolve(true);
+            };
+            this.idleWaiters.add(waiter);
+        });
+    }
+
+    /**
+     * Waits until `bytes` may be sent to the peer without exceeding the upload limits
+     */
+    public async throttle(clientId: string, bytes: number): Promise<void> {
+        let peerBucket = this.peerBuckets.get(clientId);
+        if (!peerBucket) {
+            peerBucket = new TokenBucket(this.limits.max_upload_rate_per_peer);
+            this.peerBuckets.set(clientId, peerBucket);
+        }
+
+        await peerBucket.consume(bytes);
+        await this.globalBucket.consume(bytes);
+    }
+
+    public getQueuedCount(): number {
+        let count = 0;
+        this.queues.forEach(queue => count += queue.length);
+        return count;
+    }
+
+    public getActiveCount(): number {
+        return this.activeCount;
+    }
+
+    private canStart(clientId: string): boolean {
+        const peerActive = this.active.get(clientId)?.size || 0;
+        return this.activeCount < this.limits.max_sessions &&
+            peerActive < this.limits.max_sessions_per_peer;
+    }
+
+    private start(transfer: ScheduledTransfer): void {
+        const sessions = this.active.get(transfer.clientId) || new Set<string>();
+        sessions.add(transfer.sessionId);
+        this.active.set(transfer.clientId, sessions);
+        this.activeCount++;
+        transfer.run();
+    }
+
+    private dispatch(): void {
+        let index = 0;
+        while (this.activeCount < this.limits.max_sessions && index < this.peerOrder.length) {
+            const clientId = this.peerOrder[index];
+            const queue = this.queues.get(clientId);
+
+            if (!queue || queue.length === 0 || !this.canStart(clientId)) {
+                index++;
+                continue;
+            }
+
+            const transfer = queue.shift()!;
+            // Move the peer to the back so the next slot goes to someone else
+            this.peerOrder.splice(index, 1);
+            if (queue.length === 0) {
+                this.queues.delete(clientId);
+            } else {
+                this.peerOrder.push(clientId);
+            }
+
+            this.start(transfer);
+            index = 0;
+        }
+    }
+
+    private notifyIfIdle(): void {
+        if (this.activeCount > 0) return;
+
+        const waiters = Array.from(this.idleWaiters);
+        this.idleWaiters.clear();
+        waiters.forEach(waiter => waiter());
+    }
+
+    private removeQueue(clientId: string): void {
+        this.queues.delete(clientId);
+        this.peerOrder = this.peerOrder.filter(id => id !== clientId);
+    }
+}
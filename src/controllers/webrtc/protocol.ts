@@ -0,0 +1,120 @@
+/**
+ * Data channel messages understood by the node in addition to the shared
+ * DataChannelMessageType values (READY_NODE, CANCELED).
+ *
+ * SESSION_STARTED goes out before the first chunk and carries the session's
+ * resume token. A client that reconnects under a new peer id presents it with
+ * RESUME to prove the session is its own.
+ */
+export enum TransferMessageType {
+    SESSION_STARTED = 'SESSION_STARTED',
+    RESUME = 'RESUME',
+    ACK = 'ACK',
+    FRAGMENT_DIGEST = 'FRAGMENT_DIGEST'
+}
+
+/**
+ * Binary chunk frame, version 2:
+ *   [0]                  frame version (FRAME_VERSION)
+ *   [1]                  flags (bit 0 = last chunk of the session)
+ *   [2]                  session id length (N)
+ *   [3 .. 3+N)           session id (utf8)
+ *   [3+N .. 7+N)         sequence number within the session (uint32 BE, starts at 0)
+ *   [7+N .. 15+N)        byte offset of the payload within the fragment (uint64 BE)
+ *   [15+N .. 19+N)       CRC-32 of the payload (uint32 BE)
+ *   [19+N ..)            payload
+ *
+ * After the last chunk the node sends a FRAGMENT_DIGEST JSON message with the
+ * BLAKE2b digest so the client can verify the reassembled data and re-request
+ * any corrupt range with a ranged READY_NODE.
+ */
+export const FRAME_VERSION = 2;
+export const CHUNK_FLAG_LAST = 0x01;
+export const CHUNK_HEADER_FIXED_SIZE = 3 + 4 + 8 + 4;
+
+export interface ChunkHeader {
+    isLastChunk: boolean;
+    sessionId: string;
+    sequence: number;
+    offset: number;
+    checksum: number;
+    headerSize: number;
+}
+
+export function getChunkHeaderSize(idBuf: Buffer): number {
+    return CHUNK_HEADER_FIXED_SIZE + idBuf.length;
+}
+
+export function writeChunkHeader(
+    target: Buffer,
+    idBuf: Buffer,
+    sequence: number,
+    offset: number,
+    checksum: number,
+    isLastChunk: boolean
+): number {
+    let pos = 0;
+    pos = target.writeUInt8(FRAME_VERSION, pos);
+    pos = target.writeUInt8(isLastChunk ? CHUNK_FLAG_LAST : 0, pos);
+    pos = target.writeUInt8(idBuf.length, pos);
+    pos += idBuf.copy(target, pos);
+    pos = target.writeUInt32BE(sequence >>> 0, pos);
+    pos = target.writeBigUInt64BE(BigInt(offset), pos);
+    pos = target.writeUInt32BE(checksum >>> 0, pos);
+    return pos;
+}
+
+/**
+ * Parses a header written by `writeChunkHeader`, returns undefined for frames
+ * that are truncated or use another frame version
+ */
+export function readChunkHeader(frame: Buffer): ChunkHeader | undefined {
+    if (frame.length < CHUNK_HEADER_FIXED_SIZE || frame.readUInt8(0) !== FRAME_VERSION) {
+        return undefined;
+    }
+
+    const idLength = frame.readUInt8(2);
+    const headerSize = CHUNK_HEADER_FIXED_SIZE + idLength;
+    if (frame.length < headerSize) {
+        return undefined;
+    }
+
+    let pos = 3 + idLength;
+    const sequence = frame.readUInt32BE(pos);
+    pos += 4;
+    const offset = Number(frame.readBigUInt64BE(pos));
+    pos += 8;
+    const checksum = frame.readUInt32BE(pos);
+
+    return {
+        isLastChunk: (frame.readUInt8(1) & CHUNK_FLAG_LAST) !== 0,
+        sessionId: frame.toString('utf8', 3, 3 + idLength),
+        sequence,
+        offset,
+        checksum,
+        headerSize
+    };
+}
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC-32 (IEEE 802.3), the same polynomial as zlib and most browser libraries
+ */
+export function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
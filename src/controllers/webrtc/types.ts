@@ -1,6 +1,10 @@
 import { RTCPeerConnection, RTCDataChannel } from '@roamhq/wrtc';
-import * as fs from 'fs';
-import type { PeerStats } from '../../../../types/signal';
+import type { Hash } from 'blake2';
+import type { FileHandle } from 'fs/promises';
+import type { PeerStats, RequestNodeMessage } from '../../../../types/signal';
+import { TransferMessageType } from './protocol';
+import type ChannelBackpressure from './ChannelBackpressure';
+import type { ReceiveError } from './FragmentReceiver';
 
 export interface TransferSession {
     fragmentId: string;
@@ -11,22 +15,146 @@ export interface TransferSession {
     speedBytesPerSec?: number;
     totalBytes?: number;
     sentBytes?: number;
-    fileStream?: fs.ReadStream;
+    startOffset?: number;
+    sequence?: number;
+    hasher?: Hash;
+    drainWaits?: number;
+    drainWaitMs?: number;
     canceled?: boolean;
 }
 
+// Snapshot of a running session, safe to serialize
+export interface TransferSessionInfo {
+    clientId: string;
+    sessionId: string;
+    fragmentId: string;
+    start: Date;
+    totalBytes: number;
+    sentBytes: number;
+    startOffset: number;
+}
+
 export interface PeerConnectionData {
     connection: RTCPeerConnection;
     dataChannel?: RTCDataChannel;
     lastActivity: number;
     timeoutId?: NodeJS.Timeout;
+    statsIntervalId?: NodeJS.Timeout;
     transferSessions?: Map<string, TransferSession>;
+    backpressure?: ChannelBackpressure;
     stats?: PeerStats;
 }
 
-export interface FlowControlConfig {
-    maxBufferThreshold: number;
-    throttleCheckInterval: number;
-    maxTimeoutDuration: number;
-    minTimeoutDuration: number;
+export interface ScheduledTransfer {
+    clientId: string;
+    sessionId: string;
+    fragmentId: string;
+    run: () => void;
+    // Called instead of `run` when the transfer is dropped from the queue
+    reject: (reason: string) => void;
+}
+
+export interface BackpressureConfig {
+    highWaterMark: number;
+    lowWaterMark: number;
+    stallTimeout: number;
+}
+
+export interface TransferMetrics {
+    sessionsCompleted: number;
+    sessionsFailed: number;
+    bytesSent: number;
+    transferTimeMs: number;
+    drainWaits: number;
+    drainWaitMs: number;
+}
+
+export type RangedRequestNodeMessage = RequestNodeMessage & {
+    offset?: number;
+    length?: number;
+};
+
+export interface SessionStartedMessage {
+    type: TransferMessageType.SESSION_STARTED;
+    session_id: string;
+    fragment_id: string;
+    offset: number;
+    length: number;
+    resume_token: string;
+}
+
+export interface ResumeMessage {
+    type: TransferMessageType.RESUME;
+    session_id: string;
+    fragment_id: string;
+    offset?: number;
+    // From SESSION_STARTED, needed when resuming under another peer id
+    resume_token?: string;
+}
+
+export interface AckMessage {
+    type: TransferMessageType.ACK;
+    session_id: string;
+    offset: number;
+}
+
+export interface FragmentDigestMessage {
+    type: TransferMessageType.FRAGMENT_DIGEST;
+    session_id: string;
+    fragment_id: string;
+    offset: number;
+    length: number;
+    total_chunks: number;
+    hash: string;
+    range_hash: string;
+}
+
+export interface FragmentReceiveOptions {
+    fragmentId: string;
+    // Final path of the fragment, data is written next to it until verified
+    destination: string;
+    expectedHash?: string;
+    expectedSize?: number;
+    // Space set aside for the fragment, a sender going past it is cut off
+    maxBytes?: number;
+    onProgress?: (receivedBytes: number) => void;
+}
+
+export type ReceiveFailureReason = 'transfer_failed' | 'hash_mismatch' | 'size_mismatch' | 'storage_failed';
+
+export interface ReceivedFragment {
+    fragmentId: string;
+    path: string;
+    size: number;
+    hash: string;
+}
+
+export interface ReceiveSession {
+    sessionId: string;
+    options: FragmentReceiveOptions;
+    tmpPath: string;
+    fileHandle: FileHandle;
+    hasher: Hash;
+    // Chunk writes run one after another in arrival order
+    writes: Promise<void>;
+    nextSequence: number;
+    receivedBytes: number;
+    // Set when a chunk could not be written, the partial file must not be kept
+    writeError?: ReceiveError;
+    timeoutId?: NodeJS.Timeout;
+    resolve: (fragment: ReceivedFragment) => void;
+    reject: (error: ReceiveError) => void;
+}
+
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+export interface ResumePoint extends ByteRange {
+    clientId: string;
+    fragmentId: string;
+    resumeToken: string;
+    ackedOffset: number;
+    updatedAt: number;
 }
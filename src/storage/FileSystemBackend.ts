@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import SettingUtils from '../utils/setting';
+import PlacementUtils from '../utils/placement';
+import HashCache from '../utils/hashCache';
+import type { ByteRange } from '../controllers/webrtc/types';
+import type { StorageBackend, StoredObject } from './types';
+import { isLocalLocation } from './location';
+
+function isNotFound(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Fragments as plain files in the `p2p-node-remote` directory of each storage path
+ */
+export default class FileSystemBackend implements StorageBackend {
+    public readonly name = 'filesystem';
+
+    public owns(location: string): boolean {
+        return isLocalLocation(location);
+    }
+
+    public async put(fragmentId: string, source: Readable, size: number): Promise<string> {
+        const reservation = await PlacementUtils.reserve(size);
+        if (!reservation) {
+            throw new Error(`Not enough space for ${size} bytes`);
+        }
+
+        const location = path.join(reservation.path, fragmentId);
+        const tmpLocation = `${location}.tmp`;
+        try {
+            await pipeline(source, fs.createWriteStream(tmpLocation));
+            await fs.promises.rename(tmpLocation, location);
+        } catch (error) {
+            await fs.promises.unlink(tmpLocation).catch(() => undefined);
+            throw error;
+        } finally {
+            reservation.release();
+        }
+        return location;
+    }
+
+    public async createReadStream(location: string, range?: ByteRange): Promise<Readable> {
+        const stream = fs.createReadStream(location, range && { start: range.start, end: range.end - 1 });
+        // Surface a missing file here rather than on the first read
+        await once(stream, 'ready');
+        return stream;
+    }
+
+    public async delete(location: string): Promise<void> {
+        HashCache.delete(location);
+        try {
+            await fs.promises.unlink(location);
+        } catch (error) {
+            if (!isNotFound(error)) throw error;
+        }
+    }
+
+    public async list(): Promise<StoredObject[]> {
+        const objects: StoredObject[] = [];
+        for (const remotePath of SettingUtils.getRemotePaths()) {
+            const files = await fs.promises.readdir(remotePath.path, { withFileTypes: true });
+            for (const file of files) {
+                if (!file.isFile() || file.name.endsWith('.tmp')) continue;
+
+                const stored = await this.stat(path.join(remotePath.path, file.name));
+                if (stored) objects.push(stored);
+            }
+        }
+        return objects;
+    }
+
+    public async stat(location: string): Promise<StoredObject | undefined> {
+        try {
+            const stat = await fs.promises.stat(location);
+            if (!stat.isFile()) return undefined;
+            return { fragmentId: path.basename(location), location, size: stat.size };
+        } catch (error) {
+            if (isNotFound(error)) return undefined;
+            throw error;
+        }
+    }
+
+    public async getFreeSpace(): Promise<number> {
+        return PlacementUtils.getFreeSpace();
+    }
+}
@@ -0,0 +1,222 @@
+import got from 'got';
+import { Readable } from 'stream';
+import { IncomingMessage } from 'http';
+import { S3StorageConfig } from '../types';
+import type { ByteRange } from '../controllers/webrtc/types';
+import type { StorageBackend, StoredObject } from './types';
+import { signRequest, encodeRfc3986, SigV4Credentials, UNSIGNED_PAYLOAD, EMPTY_PAYLOAD_HASH } from './sigv4';
+
+const REQUEST_TIMEOUT = { connect: 10_000, socket: 30_000 };
+
+type Method = 'GET' | 'PUT' | 'HEAD' | 'DELETE';
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+    return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Fragments as objects in an S3-compatible bucket, addressed as `s3://<bucket>/<key>`.
+ * Requests are signed with Signature Version 4, payloads are sent unsigned so
+ * fragments can be streamed.
+ */
+export default class S3Backend implements StorageBackend {
+    public readonly name = 's3';
+    private config: S3StorageConfig;
+    private credentials: SigV4Credentials;
+
+    constructor(config: S3StorageConfig, env: NodeJS.ProcessEnv = process.env) {
+        this.config = config;
+        this.credentials = {
+            accessKeyId: config.access_key_id || env.AWS_ACCESS_KEY_ID || '',
+            secretAccessKey: config.secret_access_key || env.AWS_SECRET_ACCESS_KEY || '',
+            sessionToken: env.AWS_SESSION_TOKEN
+        };
+        if (!this.credentials.accessKeyId || !this.credentials.secretAccessKey) {
+            throw new Error("S3 storage needs storage.s3.access_key_id and secret_access_key, or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY");
+        }
+    }
+
+    public owns(location: string): boolean {
+        return location.startsWith(`s3://${this.config.bucket}/`);
+    }
+
+    public async put(fragmentId: string, source: Readable, size: number): Promise<string> {
+        const key = `${this.config.prefix || ''}${fragmentId}`;
+        const url = this.objectUrl(key);
+        const response = await got(url, {
+            method: 'PUT',
+            body: source,
+            headers: { ...this.sign('PUT', url), 'content-length': String(size) },
+            throwHttpErrors: false,
+            timeout: REQUEST_TIMEOUT,
+            // A stream body cannot be replayed
+            retry: { limit: 0 }
+        });
+        this.assertOk(response.statusCode, response.body, `Uploading ${fragmentId}`);
+        return this.locationOf(key);
+    }
+
+    public async createReadStream(location: string, range?: ByteRange): Promise<Readable> {
+        const url = this.objectUrl(this.keyOf(location));
+        const headers = this.sign('GET', url);
+        if (range) {
+            headers.range = `bytes=${range.start}-${range.end - 1}`;
+        }
+
+        const stream = got.stream(url, { headers, throwHttpErrors: false, timeout: REQUEST_TIMEOUT });
+        const response = await new Promise<IncomingMessage>((resolve, reject) => {
+            stream.once('response', resolve);
+            stream.once('error', reject);
+        });
+        // A 200 for a range request carries the whole object, which would be sent as the range
+        const expectedStatus = range ? 206 : 200;
+        if (response.statusCode !== expectedStatus) {
+            if (response.statusCode! >= 200 && response.statusCode! < 300) {
+                stream.destroy();
+                throw new Error(`Reading ${location} failed with HTTP ${response.statusCode}, expected ${expectedStatus}`);
+            }
+            let body = '';
+            for await (const chunk of stream) body += chunk;
+            this.assertOk(response.statusCode!, body, `Reading ${location}`);
+        }
+        return stream;
+    }
+
+    public async delete(location: string): Promise<void> {
+        const { statusCode, body } = await this.request('DELETE', this.objectUrl(this.keyOf(location)));
+        if (statusCode !== 404) {
+            this.assertOk(statusCode, body, `Deleting ${location}`);
+        }
+    }
+
+    public async list(): Promise<StoredObject[]> {
+        const prefix = this.config.prefix || '';
+        const objects: StoredObject[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const url = this.bucketUrl();
+            url.searchParams.set('list-type', '2');
+            url.searchParams.set('prefix', prefix);
+            if (continuationToken) {
+                url.searchParams.set('continuation-token', continuationToken);
+            }
+
+            const { statusCode, body } = await this.request('GET', url);
+            this.assertOk(statusCode, body, `Listing ${this.config.bucket}`);
+
+            for (const [, contents] of body.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                const key = xmlValue(contents, 'Key');
+                if (!key || key.endsWith('/')) continue;
+                objects.push({
+                    fragmentId: key.slice(prefix.length),
+                    location: this.locationOf(key),
+                    size: Number(xmlValue(contents, 'Size') || 0)
+                });
+            }
+            continuationToken = xmlValue(body, 'IsTruncated') === 'true' ? xmlValue(body, 'NextContinuationToken') : undefined;
+        } while (continuationToken);
+
+        return objects;
+    }
+
+    public async stat(location: string): Promise<StoredObject | undefined> {
+        const key = this.keyOf(location);
+        const url = this.objectUrl(key);
+        const response = await got(url, {
+            method: 'HEAD',
+            headers: this.sign('HEAD', url),
+            throwHttpErrors: false,
+            timeout: REQUEST_TIMEOUT
+        });
+        if (response.statusCode === 404) return undefined;
+        this.assertOk(response.statusCode, '', `Checking ${location}`);
+
+        return {
+            fragmentId: key.slice((this.config.prefix || '').length),
+            location,
+            size: Number(response.headers['content-length'] || 0)
+        };
+    }
+
+    /**
+     * Room left under `capacity`, found by listing the bucket. Without a capacity
+     * the bucket is treated as unlimited.
+     */
+    public async getFreeSpace(): Promise<number> {
+        if (!this.config.capacity) {
+            return Number.MAX_SAFE_INTEGER;
+        }
+        const used = (await this.list()).reduce((total, object) => total + object.size, 0);
+        return Math.max(0, this.config.capacity - used);
+    }
+
+    private keyOf(location: string): string {
+        if (!this.owns(location)) {
+            throw new Error(`${location} is not in bucket ${this.config.bucket}`);
+        }
+        return location.slice(`s3://${this.config.bucket}/`.length);
+    }
+
+    private locationOf(key: string): string {
+        return `s3://${this.config.bucket}/${key}`;
+    }
+
+    private bucketUrl(): URL {
+        const endpoint = new URL(this.config.endpoint);
+        const basePath = endpoint.pathname.replace(/\/+$/, '');
+        if (this.config.force_path_style) {
+            endpoint.pathname = `${basePath}/${encodeRfc3986(this.config.bucket)}/`;
+        } else {
+            endpoint.hostname = `${this.config.bucket}.${endpoint.hostname}`;
+            endpoint.pathname = `${basePath}/`;
+        }
+        return endpoint;
+    }
+
+    private objectUrl(key: string): URL {
+        const url = this.bucketUrl();
+        url.pathname += key.split('/').map(encodeRfc3986).join('/');
+        return url;
+    }
+
+    private sign(method: Method, url: URL): Record<string, string> {
+        return signRequest({
+            method,
+            url,
+            payloadHash: method === 'PUT' ? UNSIGNED_PAYLOAD : EMPTY_PAYLOAD_HASH,
+            region: this.config.region,
+            service: 's3',
+            credentials: this.credentials
+        });
+    }
+
+    private async request(method: Method, url: URL): Promise<{ statusCode: number, body: string }> {
+        const response = await got(url, {
+            method,
+            headers: this.sign(method, url),
+            throwHttpErrors: false,
+            timeout: REQUEST_TIMEOUT
+        });
+        return { statusCode: response.statusCode, body: response.body };
+    }
+
+    private assertOk(statusCode: number, body: string, action: string): void {
+        if (statusCode >= 200 && statusCode < 300) return;
+
+        const code = xmlValue(body, 'Code');
+        const message = xmlValue(body, 'Message');
+        throw new Error(`${action} failed with HTTP ${statusCode}${code ? `: ${code}` : ''}${message ? ` (${message})` : ''}`);
+    }
+}
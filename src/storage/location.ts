@@ -0,0 +1,8 @@
+const URL_LOCATION = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * Whether the location is a plain file path rather than an object storage URL
+ */
+export function isLocalLocation(location: string): boolean {
+    return !URL_LOCATION.test(location);
+}
@@ -0,0 +1,91 @@
+import { createHash, createHmac } from 'crypto';
+
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+export const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+export interface SigV4Credentials {
+    accessKeyId: string
+    secretAccessKey: string
+    sessionToken?: string
+}
+
+export interface SigV4Request {
+    method: string
+    url: URL
+    // Headers to sign in addition to host and the x-amz-* ones
+    headers?: Record<string, string>
+    payloadHash: string
+    region: string
+    service: string
+    credentials: SigV4Credentials
+    date?: Date
+}
+
+/**
+ * Percent-encodes everything but the unreserved characters of RFC 3986,
+ * which is stricter than encodeURIComponent
+ */
+export function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+    return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+function sha256(data: string): string {
+    return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function canonicalQuery(url: URL): string {
+    return Array.from(url.searchParams.entries())
+        .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+        .sort(([keyA, valueA], [keyB, valueB]) => keyA < keyB ? -1 : keyA > keyB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+        .map(([key, value]) => `${key}=${value}`)
+        .join('&');
+}
+
+/**
+ * Signs a request with AWS Signature Version 4 and returns the headers to send
+ * with it, including `authorization`. The path of `url` must already be encoded.
+ */
+export function signRequest(request: SigV4Request): Record<string, string> {
+    const date = request.date || new Date();
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const day = amzDate.slice(0, 8);
+
+    const headers: Record<string, string> = {
+        ...request.headers,
+        host: request.url.host,
+        'x-amz-date': amzDate,
+        'x-amz-content-sha256': request.payloadHash
+    };
+    if (request.credentials.sessionToken) {
+        headers['x-amz-security-token'] = request.credentials.sessionToken;
+    }
+
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+    const canonicalHeaders = names.map(name => `${name}:${lowerCased[name].trim().replace(/\s+/g, ' ')}\n`).join('');
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [
+        request.method.toUpperCase(),
+        request.url.pathname || '/',
+        canonicalQuery(request.url),
+        canonicalHeaders,
+        signedHeaders,
+        request.payloadHash
+    ].join('\n');
+
+    const scope = `${day}/${request.region}/${request.service}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${request.credentials.secretAccessKey}`, day), request.region), request.service), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    return {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${request.credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+}
@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+import type { ByteRange } from '../controllers/webrtc/types';
+
+export interface StoredObject {
+    fragmentId: string
+    location: string
+    size: number
+}
+
+/**
+ * Where fragment data lives. A fragment is addressed by its location, the
+ * `path` stored in the fragment index: a file path for the filesystem backend,
+ * a URL such as `s3://bucket/key` for the others.
+ */
+export interface StorageBackend {
+    readonly name: string
+
+    owns(location: string): boolean
+
+    /**
+     * Stores `size` bytes read from `source` and returns the new location.
+     * Nothing is visible at that location until the whole fragment is written.
+     */
+    put(fragmentId: string, source: Readable, size: number): Promise<string>
+
+    /**
+     * Streams the fragment, or only `range` when given (end exclusive)
+     */
+    createReadStream(location: string, range?: ByteRange): Promise<Readable>
+
+    // Succeeds when the fragment is already gone
+    delete(location: string): Promise<void>
+
+    list(): Promise<StoredObject[]>
+
+    // Undefined when nothing is stored at the location
+    stat(location: string): Promise<StoredObject | undefined>
+
+    // Largest fragment that can be stored right now, in bytes
+    getFreeSpace(): Promise<number>
+}
@@ -1,3 +1,5 @@
+import { DownloadStatus } from '../config/events';
+
 export type HttpUrl = `http://${string}` | `https://${string}`
 
 export type IceUrl = `stun:${string}` | `turn:${string}` | `turns:${string}`
@@ -20,13 +22,105 @@ export interface AppInfo {
 export interface StoragePath {
     path: string
     threshold: number
+    max_fragments?: number              // fragments the path may hold, unlimited when unset
+    max_size?: number                   // bytes of fragments the path may hold, unlimited when unset
+    weight?: number                     // share of new fragments for the weighted strategy, e.g. higher for faster disks, default 1
+}
+
+export interface TransferLimits {
+    max_sessions: number
+    max_sessions_per_peer: number
+    max_queued_per_peer: number
+    max_upload_rate: number             // bytes per second, 0 = unlimited
+    max_upload_rate_per_peer: number    // bytes per second, 0 = unlimited
+}
+
+export interface DownloadConfig {
+    concurrency: number
+    retries: number
+    retry_backoff_ms: number
+}
+
+export interface SignalingConfig {
+    max_connections: number             // servers to stay registered with at once, 0 = all of them
+}
+
+export interface AdminConfig {
+    enabled: boolean
+    host: string
+    port: number
+    token: string                       // generated on first start when empty
+}
+
+export interface MetricsConfig {
+    enabled: boolean
+    host: string
+    port: number
+    path: string
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export interface LoggingConfig {
+    level: LogLevel
+    format: 'text' | 'json'
+    modules?: Record<string, LogLevel>  // per-module overrides, e.g. { "webrtc": "debug" }
+}
+
+export interface ScrubConfig {
+    enabled: boolean
+    interval_hours: number
+    rate_bytes_per_sec: number          // read rate while scrubbing, 0 = unlimited
+}
+
+export interface QuotaConfig {
+    enabled: boolean
+    interval_minutes: number
+    policy: 'signaling' | 'lru'         // ask the origin servers which fragments to drop, or drop the least recently served
+    headroom_percent: number            // once over the threshold, free space until usage is this far below it
+}
+
+export interface S3StorageConfig {
+    endpoint: HttpUrl
+    region: string
+    bucket: string
+    prefix?: string                     // key prefix for fragments, e.g. "node-1/"
+    access_key_id?: string              // falls back to AWS_ACCESS_KEY_ID when empty
+    secret_access_key?: string          // falls back to AWS_SECRET_ACCESS_KEY when empty
+    force_path_style?: boolean          // bucket in the path instead of the host name, needed by most stand-ins
+    capacity?: number                   // bytes the node may store in the bucket, 0 = unlimited
+}
+
+export type PlacementStrategy = 'most_free' | 'round_robin' | 'weighted' | 'fill_first';
+
+export interface StorageConfig {
+    backend: 'filesystem' | 's3'        // where new fragments are stored, existing ones stay where they are
+    placement?: PlacementStrategy       // how new fragments are spread over the storage paths
+    s3?: S3StorageConfig
 }
 
 export interface AppConfig {
+    version?: number                    // settings layout version, see CONFIG_VERSION
     signaling_servers: ReadonlyArray<HttpUrl>
+    signaling?: SignalingConfig
     webrtc: WebRTCConfig
     info: AppInfo
     paths: Array<StoragePath>
+    storage?: StorageConfig
+    transfer?: TransferLimits
+    scrub?: ScrubConfig
+    quota?: QuotaConfig
+    download?: DownloadConfig
+    admin?: AdminConfig
+    metrics?: MetricsConfig
+    logging?: LoggingConfig
+}
+
+export interface ServerHealth {
+    url: string
+    latency_ms?: number         // smoothed probe round trip, undefined until a probe succeeds
+    failures: number            // consecutive failed probes or connections
+    last_failure_at?: number
 }
 
 export interface FileSystemInfo {
@@ -34,6 +128,8 @@ export interface FileSystemInfo {
     filesystem: string
     mount: string
     availableSpace: number
+    size: number
+    used: number
 }
 
 export interface FragmentHash {
@@ -48,6 +144,102 @@ export interface SystemInfo {
     filesystem_usage: FileSystemInfo[]
 }
 
+export interface FragmentRecord {
+    id: string
+    path: string
+    size: number
+    hash?: string
+    created_at: number
+    last_served_at?: number
+    last_scrubbed_at?: number
+    origins?: string[]      // signaling servers the fragment was placed by, unset when unknown
+}
+
+export interface FragmentCorruptionReport {
+    fragment_id: string
+    expected_hash: string
+    actual_hash: string
+    size: number
+    detected_at: number
+}
+
+export interface EvictionCandidate {
+    fragment_id: string
+    size: number
+    last_served_at?: number
+}
+
+export interface EvictionRequest {
+    bytes_needed: number
+    fragments: EvictionCandidate[]      // least recently served first
+}
+
+export interface EvictionResponse {
+    fragment_ids: string[]              // fragments the server can do without on this node
+}
+
+export interface FragmentEvictionReport {
+    fragment_ids: string[]
+    freed_bytes: number
+    reason: 'threshold' | 'max_size' | 'max_fragments'
+    evicted_at: number
+}
+
+export interface DownloadRequest {
+    url: string
+    hash?: string       // expected BLAKE2b hex digest
+    size?: number       // expected size in bytes
+}
+
+export type DownloadFailureReason =
+    | 'head_failed'
+    | 'missing_headers'
+    | 'size_mismatch'
+    | 'no_space'
+    | 'download_failed'
+    | 'hash_mismatch'
+    | 'storage_failed'
+
+export interface DownloadFailure {
+    url: string
+    fragment_id?: string
+    reason: DownloadFailureReason
+    message: string
+}
+
+export interface DownloadProgress {
+    url: string
+    fragment_id?: string
+    status: DownloadStatus
+    bytes?: number      // bytes stored so far, including resumed ones
+    total?: number
+    reason?: DownloadFailureReason
+    message?: string
+    timestamp: number
+}
+
+export interface ReplicationRequest {
+    fragment_id: string
+    source: string      // id of the node holding the fragment
+    hash?: string       // expected BLAKE2b hex digest
+    size?: number       // expected size in bytes
+}
+
+export type ReplicationFailureReason =
+    | 'peer_unreachable'
+    | 'size_mismatch'
+    | 'no_space'
+    | 'transfer_failed'
+    | 'hash_mismatch'
+    | 'storage_failed'
+
+export interface ReplicationFailure {
+    fragment_id: string
+    source: string
+    reason: ReplicationFailureReason
+    message: string
+}
+
 export interface FileHash {
     path: string
     hash: string
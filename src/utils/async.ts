@@ -0,0 +1,28 @@
+export default class AsyncUtils {
+    /**
+     * Maps items with at most `limit` calls of `fn` in flight, keeping the input order
+     */
+    public static async mapLimit<T, R>(
+        items: ReadonlyArray<T>,
+        limit: number,
+        fn: (item: T, index: number) => Promise<R>
+    ): Promise<R[]> {
+        const results: R[] = new Array(items.length);
+        let next = 0;
+
+        const worker = async (): Promise<void> => {
+            while (next < items.length) {
+                const index = next++;
+                results[index] = await fn(items[index], index);
+            }
+        };
+
+        const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+        await Promise.all(workers);
+        return results;
+    }
+
+    public static sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
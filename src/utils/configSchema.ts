@@ -0,0 +1,281 @@
+import { AppConfig } from '../types';
+import { CONFIG_VERSION, DEFAULT_SETTING } from '../config/constants';
+
+type Issues = string[];
+type Rule = (value: unknown, field: string, issues: Issues) => void;
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'];
+
+// Optional sections filled in from DEFAULT_SETTING when missing
+const DEFAULT_SECTIONS: Array<keyof AppConfig> = ['signaling', 'storage', 'transfer', 'scrub', 'quota', 'download', 'admin', 'metrics', 'logging'];
+
+export class ConfigValidationError extends Error {
+    public readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid settings:\n  - ${issues.join('\n  - ')}`);
+        this.issues = issues;
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'string' ? `"${value}"` : typeof value === 'object' ? 'an object' : String(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const string = (options: { nonEmpty?: boolean } = {}): Rule => (value, field, issues) => {
+    if (typeof value !== 'string') {
+        issues.push(`${field}: expected a string, got ${describe(value)}`);
+    } else if (options.nonEmpty && value.trim() === '') {
+        issues.push(`${field}: must not be empty`);
+    }
+};
+
+const boolean = (): Rule => (value, field, issues) => {
+    if (typeof value !== 'boolean') {
+        issues.push(`${field}: expected true or false, got ${describe(value)}`);
+    }
+};
+
+const integer = (min: number, max: number = Number.MAX_SAFE_INTEGER): Rule => (value, field, issues) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+        issues.push(`${field}: expected a whole number, got ${describe(value)}`);
+    } else if (value < min || value > max) {
+        issues.push(`${field}: must be between ${min} and ${max}, got ${value}`);
+    }
+};
+
+const number = (min: number, max?: number): Rule => (value, field, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${field}: expected a number, got ${describe(value)}`);
+    } else if (max !== undefined && (value < min || value > max)) {
+        issues.push(`${field}: must be between ${min} and ${max}, got ${value}`);
+    } else if (value < min) {
+        issues.push(`${field}: must be at least ${min}, got ${value}`);
+    }
+};
+
+const oneOf = (choices: string[]): Rule => (value, field, issues) => {
+    if (typeof value !== 'string' || !choices.includes(value)) {
+        issues.push(`${field}: expected one of ${choices.join(', ')}, got ${describe(value)}`);
+    }
+};
+
+const url = (protocols: string[]): Rule => (value, field, issues) => {
+    if (typeof value !== 'string' || !protocols.some(protocol => value.startsWith(protocol))) {
+        issues.push(`${field}: expected a URL starting with ${protocols.join(' or ')}, got ${describe(value)}`);
+    }
+};
+
+const array = (item: Rule, options: { nonEmpty?: boolean } = {}): Rule => (value, field, issues) => {
+    if (!Array.isArray(value)) {
+        issues.push(`${field}: expected an array, got ${describe(value)}`);
+        return;
+    }
+    if (options.nonEmpty && value.length === 0) {
+        issues.push(`${field}: must contain at least one entry`);
+    }
+    value.forEach((entry, i) => item(entry, `${field}[${i}]`, issues));
+};
+
+const either = (...rules: Rule[]): Rule => (value, field, issues) => {
+    const attempts = rules.map(rule => {
+        const ruleIssues: Issues = [];
+        rule(value, field, ruleIssues);
+        return ruleIssues;
+    });
+    if (attempts.every(attempt => attempt.length > 0)) {
+        issues.push(...attempts[0]);
+    }
+};
+
+const record = (item: Rule): Rule => (value, field, issues) => {
+    if (!isObject(value)) {
+        issues.push(`${field}: expected an object, got ${describe(value)}`);
+        return;
+    }
+    Object.entries(value).forEach(([key, entry]) => item(entry, `${field}.${key}`, issues));
+};
+
+/**
+ * Checks every known field and rejects unknown ones, so a misspelled key is
+ * reported instead of silently falling back to the default
+ */
+const object = (fields: Record<string, Rule>, optional: string[] = []): Rule => (value, field, issues) => {
+    if (!isObject(value)) {
+        issues.push(`${field}: expected an object, got ${describe(value)}`);
+        return;
+    }
+    Object.entries(fields).forEach(([key, rule]) => {
+        const path = field ? `${field}.${key}` : key;
+        if (value[key] === undefined) {
+            if (!optional.includes(key)) issues.push(`${path}: is required`);
+            return;
+        }
+        rule(value[key], path, issues);
+    });
+    Object.keys(value)
+        .filter(key => !(key in fields))
+        .forEach(key => issues.push(`${field ? `${field}.${key}` : key}: unknown field`));
+};
+
+const iceUrl = url(['stun:', 'turn:', 'turns:']);
+
+const APP_CONFIG: Rule = object({
+    version: integer(1, CONFIG_VERSION),
+    signaling_servers: array(url(['http://', 'https://']), { nonEmpty: true }),
+    signaling: object({
+        max_connections: integer(0)
+    }),
+    webrtc: object({
+        iceServers: array(object({
+            urls: either(iceUrl, array(iceUrl, { nonEmpty: true })),
+            username: string(),
+            credential: string()
+        }, ['username', 'credential']))
+    }),
+    info: object({
+        id: string(),
+        auth_token: string()
+    }),
+    paths: array(object({
+        path: string({ nonEmpty: true }),
+        threshold: number(1, 100),
+        max_fragments: integer(1),
+        max_size: integer(1),
+        weight: number(0.01)
+    }, ['max_fragments', 'max_size', 'weight']), { nonEmpty: true }),
+    storage: object({
+        backend: oneOf(['filesystem', 's3']),
+        placement: oneOf(['most_free', 'round_robin', 'weighted', 'fill_first']),
+        s3: object({
+            endpoint: url(['http://', 'https://']),
+            region: string({ nonEmpty: true }),
+            bucket: string({ nonEmpty: true }),
+            prefix: string(),
+            access_key_id: string(),
+            secret_access_key: string(),
+            force_path_style: boolean(),
+            capacity: integer(0)
+        }, ['prefix', 'access_key_id', 'secret_access_key', 'force_path_style', 'capacity'])
+    }, ['placement', 's3']),
+    transfer: object({
+        max_sessions: integer(1),
+        max_sessions_per_peer: integer(1),
+        max_queued_per_peer: integer(0),
+        max_upload_rate: integer(0),
+        max_upload_rate_per_peer: integer(0)
+    }),
+    scrub: object({
+        enabled: boolean(),
+        interval_hours: number(0.01),
+        rate_bytes_per_sec: integer(0)
+    }),
+    quota: object({
+        enabled: boolean(),
+        interval_minutes: number(0.1),
+        policy: oneOf(['signaling', 'lru']),
+        headroom_percent: number(0)
+    }),
+    download: object({
+        concurrency: integer(1),
+        retries: integer(0),
+        retry_backoff_ms: integer(0)
+    }),
+    admin: object({
+        enabled: boolean(),
+        host: string({ nonEmpty: true }),
+        port: integer(0, 65535),
+        token: string()
+    }),
+    metrics: object({
+        enabled: boolean(),
+        host: string({ nonEmpty: true }),
+        port: integer(0, 65535),
+        path: string({ nonEmpty: true })
+    }),
+    logging: object({
+        level: oneOf(LOG_LEVELS),
+        format: oneOf(['text', 'json']),
+        modules: record(oneOf(LOG_LEVELS))
+    }, ['modules'])
+});
+
+/**
+ * Upgrades a settings object from version `index + 1` to the next version.
+ * Files written before the version field existed are version 1.
+ */
+const MIGRATIONS: Array<(config: Record<string, unknown>) => Record<string, unknown>> = [
+    // 1 -> 2: write out the sections added since the first release so they can be edited
+    config => {
+        const migrated = { ...config };
+        DEFAULT_SECTIONS.forEach(section => {
+            if (migrated[section] === undefined) {
+                migrated[section] = DEFAULT_SETTING[section];
+            }
+        });
+        return migrated;
+    }
+];
+
+export default class ConfigSchema {
+    /**
+     * Runs the migrations needed to bring `raw` up to the current version
+     * @returns The migrated settings and whether anything changed
+     */
+    public static migrate(raw: unknown): { config: unknown, migrated: boolean } {
+        if (!isObject(raw)) {
+            return { config: raw, migrated: false };
+        }
+
+        const version = raw.version === undefined ? 1 : raw.version;
+        if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+            throw new ConfigValidationError([`version: expected a whole number, got ${describe(version)}`]);
+        }
+        if (version > CONFIG_VERSION) {
+            throw new ConfigValidationError([`version: ${version} was written by a newer node, this one supports up to ${CONFIG_VERSION}`]);
+        }
+
+        let config = raw;
+        for (let from = version; from < CONFIG_VERSION; from++) {
+            config = { ...MIGRATIONS[from - 1](config), version: from + 1 };
+        }
+        return { config, migrated: version !== CONFIG_VERSION };
+    }
+
+    /**
+     * Fills missing fields of the optional sections from DEFAULT_SETTING and checks the result
+     * @throws ConfigValidationError listing every invalid field
+     */
+    public static validate(raw: unknown): AppConfig {
+        if (!isObject(raw)) {
+            throw new ConfigValidationError([`expected the settings to be an object, got ${describe(raw)}`]);
+        }
+
+        const config: Record<string, unknown> = { ...raw };
+        DEFAULT_SECTIONS.forEach(section => {
+            if (config[section] === undefined || isObject(config[section])) {
+                config[section] = { ...(DEFAULT_SETTING[section] as object), ...(config[section] as object | undefined) };
+            }
+        });
+        if (config.info === undefined) {
+            config.info = { ...DEFAULT_SETTING.info };
+        }
+
+        const issues: Issues = [];
+        APP_CONFIG(config, '', issues);
+        const storage = config.storage as Record<string, unknown>;
+        if (storage.backend === 's3' && storage.s3 === undefined) {
+            issues.push('storage.s3: is required when storage.backend is "s3"');
+        }
+        if (issues.length > 0) {
+            throw new ConfigValidationError(issues);
+        }
+        return config as unknown as AppConfig;
+    }
+}
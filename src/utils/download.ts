@@ -1,29 +1,78 @@
 import got from "got";
-import { IncomingHttpHeaders } from "http";
+import { IncomingHttpHeaders, IncomingMessage } from "http";
 import { NodeHttpHeader } from '../../../types/resource';
 import * as fs from 'fs/promises';
 import { createWriteStream } from 'fs';
+import { randomBytes } from 'crypto';
 import { pipeline } from 'stream/promises';
 import { join } from 'path';
+import AsyncUtils from './async';
+import Logger from './logger';
+
+const log = Logger.get('download');
+
+const TRANSIENT_ERROR_CODES = new Set([
+    'ETIMEDOUT',
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'EPIPE',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+    'ERR_READING_RESPONSE_STREAM'
+]);
+
+export interface DownloadOptions {
+    retries: number
+    retryBackoffMs: number
+    expectedSize?: number
+    onProgress?: (bytes: number, total?: number) => void
+}
 
 export default class DownloadUtils {
-    public static async stream(url: string, destination: string, fileName: string, headers?: NodeHttpHeader): Promise<string> {
+    /**
+     * Downloads into `<fileName>.<random>.tmp` next to the destination, resuming with an HTTP Range
+     * request after transient failures, and renames it into place only once complete.
+     * The random part keeps concurrent downloads of the same file out of each other's way.
+     */
+    public static async stream(
+        url: string,
+        destination: string,
+        fileName: string,
+        headers?: NodeHttpHeader,
+        options: DownloadOptions = { retries: 0, retryBackoffMs: 0 }
+    ): Promise<string> {
         const fullDestination = join(destination, fileName);
-        const fileWriteStream = createWriteStream(fullDestination);
-        try {
-            const downloadStream = got.stream(url, { headers });
+        const tmpDestination = `${fullDestination}.${randomBytes(6).toString('hex')}.tmp`;
 
-            await pipeline(downloadStream, fileWriteStream);
-            return fullDestination;
-        } catch (error) {
-            // Clean up - delete the partial file if download fails
+        for (let attempt = 0; ; attempt++) {
             try {
-                await fs.unlink(fullDestination);
-            } catch {
-                // Ignore errors if deletion fails
-            }
+                await this.streamAttempt(url, tmpDestination, headers, options.expectedSize, options.onProgress);
+                await fs.rename(tmpDestination, fullDestination);
+                return fullDestination;
+            } catch (error) {
+                if (attempt < options.retries && this.isTransient(error)) {
+                    // Exponential backoff with jitter so parallel downloads don't retry in lockstep
+                    const delay = options.retryBackoffMs * 2 ** attempt * (0.5 + Math.random());
+                    log.warn(`Download failed, retry ${attempt + 1}/${options.retries} in ${Math.round(delay)} ms`, {
+                        url,
+                        error: (error as Error).message
+                    });
+                    await AsyncUtils.sleep(delay);
+                    continue;
+                }
+
+                // Clean up - delete the partial file if download fails
+                try {
+                    await fs.unlink(tmpDestination);
+                } catch {
+                    // Ignore errors if deletion fails
+                }
 
-            throw new Error(`Failed to download from ${url} to ${fullDestination}: ${(error as Error).message}`);
+                throw new Error(`Failed to download from ${url} to ${fullDestination}: ${(error as Error).message}`);
+            }
         }
     }
 
@@ -35,4 +84,69 @@ export default class DownloadUtils {
             throw new Error(`Failed to get headers from ${url}: ${(error as Error).message}`);
         }
     }
-}
\ No newline at end of file
+
+    private static async streamAttempt(
+        url: string,
+        tmpDestination: string,
+        headers?: NodeHttpHeader,
+        expectedSize?: number,
+        onProgress?: (bytes: number, total?: number) => void
+    ): Promise<void> {
+        const offset = await this.getFileSize(tmpDestination);
+        // An empty file is only complete once the request created it
+        if (expectedSize !== undefined && offset > 0 && offset === expectedSize) {
+            return;
+        }
+
+        const resume = offset > 0 && (expectedSize === undefined || offset < expectedSize);
+        const downloadStream = got.stream(url, {
+            headers: resume ? { ...headers, Range: `bytes=${offset}-` } : { ...headers },
+            timeout: { connect: 10_000, socket: 30_000 }
+        });
+
+        const response = await new Promise<IncomingMessage>((resolve, reject) => {
+            downloadStream.once('response', resolve);
+            downloadStream.once('error', reject);
+        });
+
+        // A server that ignores the Range header sends the whole file again
+        const append = resume && response.statusCode === 206;
+        if (resume && !append) {
+            log.warn("Server did not honour range request, restarting download", { url });
+        }
+
+        if (onProgress) {
+            // got counts from the start of this request, report bytes stored in the file
+            const base = append ? offset : 0;
+            downloadStream.on('downloadProgress', (progress: { transferred: number }) => {
+                onProgress(base + progress.transferred, expectedSize);
+            });
+        }
+
+        const fileWriteStream = createWriteStream(tmpDestination, { flags: append ? 'a' : 'w' });
+        await pipeline(downloadStream, fileWriteStream);
+    }
+
+    private static async getFileSize(filePath: string): Promise<number> {
+        try {
+            return (await fs.stat(filePath)).size;
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * Network errors, timeouts, 408, 429 and 5xx are worth retrying; other HTTP
+     * errors and local file system errors (e.g. ENOSPC) are not
+     */
+    private static isTransient(error: unknown): boolean {
+        const { name, code, response } = error as { name?: string, code?: string, response?: { statusCode?: number } };
+
+        // Read errors carry the (successful) response they were reading, only HTTP errors are judged by status
+        const statusCode = response?.statusCode;
+        if (name === 'HTTPError' && statusCode !== undefined) {
+            return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+        }
+        return code !== undefined && TRANSIENT_ERROR_CODES.has(code);
+    }
+}
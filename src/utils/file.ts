@@ -1,29 +1,70 @@
 import * as fs from 'fs';
+import { Readable } from 'stream';
 import { createHash } from 'blake2';
 import { NodeResourceHash } from '../../../types/signal';
+import { HASH_CONCURRENCY } from '../config/constants';
+import HashCache from './hashCache';
+import AsyncUtils from './async';
+import Logger from './logger';
 const path = require('path');
 
+const log = Logger.get('file');
+
 export default class FileUtils {
-    public static hashFile(filePath: string): string | undefined {
+    /**
+     * Streams the file through BLAKE2b, reusing the cached hash while size and mtime are unchanged
+     * @param useCache - Set to false to always read the file, e.g. when checking for bit-rot
+     * @param maxBytesPerSec - Limits the read rate, 0 = unlimited
+     */
+    public static async hashFile(filePath: string, useCache = true, maxBytesPerSec = 0): Promise<string | undefined> {
         try {
-            const fileData = fs.readFileSync(filePath);
-            const h = createHash('blake2b', { digestLength: 32 });
-            h.update(fileData);
-            return h.digest('hex');
+            const stat = await fs.promises.stat(filePath);
+            if (useCache) {
+                const cached = HashCache.get(filePath, stat);
+                if (cached) return cached;
+            }
+
+            const hash = await this.hashStream(fs.createReadStream(filePath), maxBytesPerSec);
+
+            HashCache.set(filePath, stat, hash);
+            return hash;
         } catch (error) {
-            console.error(`Error hashing file ${filePath}:`, error);
+            log.error("Error hashing file", error, { path: filePath });
             return undefined;
         }
     }
 
-    public static hashFiles(filePaths: string[]): NodeResourceHash[] {
-        return filePaths.map(filePath => ({
+    /**
+     * Consumes the stream and returns its BLAKE2b digest
+     * @param maxBytesPerSec - Limits the read rate, 0 = unlimited
+     */
+    public static async hashStream(stream: Readable, maxBytesPerSec = 0): Promise<string> {
+        const h = createHash('blake2b', { digestLength: 32 });
+        const startTime = Date.now();
+        let bytesRead = 0;
+        for await (const chunk of stream) {
+            h.update(chunk as Buffer);
+            bytesRead += chunk.length;
+
+            if (maxBytesPerSec > 0) {
+                const aheadMs = (bytesRead / maxBytesPerSec) * 1000 - (Date.now() - startTime);
+                if (aheadMs > 0) {
+                    await AsyncUtils.sleep(aheadMs);
+                }
+            }
+        }
+        return h.digest('hex');
+    }
+
+    public static async hashFiles(filePaths: string[], concurrency = HASH_CONCURRENCY): Promise<NodeResourceHash[]> {
+        return AsyncUtils.mapLimit(filePaths, concurrency, async filePath => ({
             fragment_id: path.basename(filePath),
-            hash: this.hashFile(filePath) || ''
+            hash: await this.hashFile(filePath) || ''
         }));
     }
 
     public static deleteFile(filePath: string): void {
+        HashCache.delete(filePath);
         // Check if file exists first
         if (fs.existsSync(filePath)) {
             fs.promises.unlink(filePath);
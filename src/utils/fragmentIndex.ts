@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FRAGMENT_INDEX_FILE } from '../config/constants';
+import ConfigOverrides from './overrides';
+import { FragmentRecord, StoragePath } from '../types';
+import Logger from './logger';
+import { isLocalLocation } from '../storage/location';
+
+const log = Logger.get('fragment-index');
+
+export interface FragmentIndexTransaction {
+    put(record: FragmentRecord): void
+    remove(fragmentId: string): void
+}
+
+/**
+ * Durable fragment id → metadata index, persisted as JSON next to the settings file.
+ * Every transaction is written with a temp file + rename, so a crash leaves either
+ * the old or the new index on disk, never a partial one.
+ */
+export default class FragmentIndex {
+    private static records: Map<string, FragmentRecord> = new Map();
+    private static writeQueue: Promise<void> = Promise.resolve();
+    private static lazyPersistTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Loads the index from disk, returns false when there is no index yet
+     */
+    public static load(): boolean {
+        FragmentIndex.records.clear();
+        const indexPath = ConfigOverrides.getDataPath(FRAGMENT_INDEX_FILE);
+        if (!fs.existsSync(indexPath)) {
+            return false;
+        }
+
+        try {
+            const data: FragmentRecord[] = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+            data.forEach(record => FragmentIndex.records.set(record.id, record));
+            return true;
+        } catch (error) {
+            log.error("Fragment index is unreadable, it will be rebuilt from disk", error);
+            return false;
+        }
+    }
+
+    public static get(fragmentId: string): FragmentRecord | undefined {
+        return FragmentIndex.records.get(fragmentId);
+    }
+
+    public static getPath(fragmentId: string): string | undefined {
+        return FragmentIndex.records.get(fragmentId)?.path;
+    }
+
+    public static getAll(): FragmentRecord[] {
+        return Array.from(FragmentIndex.records.values());
+    }
+
+    /**
+     * Fragments placed by the given signaling server, plus those whose origin is unknown
+     */
+    public static getByOrigin(origin: string): FragmentRecord[] {
+        return FragmentIndex.getAll().filter(record => !record.origins || record.origins.includes(origin));
+    }
+
+    public static size(): number {
+        return FragmentIndex.records.size;
+    }
+
+    /**
+     * Applies all changes made in `fn` and persists them together.
+     * If the index cannot be written the in-memory changes are rolled back.
+     */
+    public static async transaction(fn: (tx: FragmentIndexTransaction) => void): Promise<void> {
+        const previous = new Map<string, FragmentRecord | undefined>();
+        const remember = (fragmentId: string) => {
+            if (!previous.has(fragmentId)) {
+                previous.set(fragmentId, FragmentIndex.records.get(fragmentId));
+            }
+        };
+
+        fn({
+            put: (record) => {
+                remember(record.id);
+                FragmentIndex.records.set(record.id, record);
+            },
+            remove: (fragmentId) => {
+                remember(fragmentId);
+                FragmentIndex.records.delete(fragmentId);
+            }
+        });
+
+        if (previous.size === 0) return;
+
+        try {
+            await FragmentIndex.persist();
+        } catch (error) {
+            previous.forEach((record, fragmentId) => {
+                if (record) {
+                    FragmentIndex.records.set(fragmentId, record);
+                } else {
+                    FragmentIndex.records.delete(fragmentId);
+                }
+            });
+            throw new Error(`Failed to write fragment index: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    public static async add(record: FragmentRecord): Promise<void> {
+        await FragmentIndex.transaction(tx => tx.put(record));
+    }
+
+    public static async remove(fragmentIds: string[]): Promise<void> {
+        await FragmentIndex.transaction(tx => fragmentIds.forEach(id => tx.remove(id)));
+    }
+
+    /**
+     * Records that a fragment was served. Timestamps are written lazily,
+     * losing a few of them on a crash is acceptable.
+     */
+    public static touch(fragmentId: string): void {
+        const record = FragmentIndex.records.get(fragmentId);
+        if (!record) return;
+
+        record.last_served_at = Date.now();
+        FragmentIndex.schedulePersist();
+    }
+
+    public static markScrubbed(fragmentId: string): void {
+        const record = FragmentIndex.records.get(fragmentId);
+        if (!record) return;
+
+        record.last_scrubbed_at = Date.now();
+        FragmentIndex.schedulePersist();
+    }
+
+    /**
+     * Brings the index in line with the files actually present in the remote paths:
+     * unknown files are added, missing or resized files are dropped or updated.
+     * Unreadable entries are skipped instead of failing the whole scan.
+     */
+    public static async reconcile(remotePaths: StoragePath[]): Promise<void> {
+        const scanStart = Date.now();
+        const found = new Map<string, FragmentRecord>();
+        const configuredDirs = new Set(remotePaths.map(p => p.path));
+        const scannedDirs = new Set<string>();
+
+        for (const remotePath of remotePaths) {
+            let files: string[];
+            try {
+                files = await fs.promises.readdir(remotePath.path);
+                scannedDirs.add(remotePath.path);
+            } catch (error) {
+                log.error("Error reading directory", error, { path: remotePath.path });
+                continue;
+            }
+
+            for (const file of files) {
+                if (file.endsWith('.tmp')) continue;
+
+                const filePath = path.join(remotePath.path, file);
+                try {
+                    const stat = await fs.promises.stat(filePath);
+                    if (!stat.isFile()) continue;
+
+                    const existing = FragmentIndex.records.get(file);
+                    const unchanged = existing && existing.path === filePath && existing.size === stat.size;
+                    found.set(file, unchanged ? existing : {
+                        id: file,
+                        path: filePath,
+                        size: stat.size,
+                        created_at: existing?.created_at ?? Math.floor(stat.mtimeMs),
+                        origins: existing?.origins
+                    });
+                } catch (error) {
+                    log.warn("Skipping unreadable fragment", { path: filePath, error: String(error) });
+                }
+            }
+        }
+
+        let added = 0;
+        let removed = 0;
+        await FragmentIndex.transaction(tx => {
+            FragmentIndex.records.forEach((record, fragmentId) => {
+                // Fragments in object storage are not part of the scan
+                if (!isLocalLocation(record.path)) return;
+
+                const dir = path.dirname(record.path);
+                // Entries whose directory could not be read, or that were added while
+                // scanning, are kept as they are
+                const missing = scannedDirs.has(dir) && !found.has(fragmentId) && record.created_at < scanStart;
+                if (missing || !configuredDirs.has(dir)) {
+                    tx.remove(fragmentId);
+                    removed++;
+                }
+            });
+            found.forEach((record, fragmentId) => {
+                const existing = FragmentIndex.records.get(fragmentId);
+                if (existing !== record) {
+                    tx.put(record);
+                    if (!existing) added++;
+                }
+            });
+        });
+
+        log.info(`Fragment index reconciled: ${FragmentIndex.records.size} fragments`, { added, removed });
+    }
+
+    /**
+     * Writes out pending lazy updates right away, used on shutdown
+     */
+    public static async flush(): Promise<void> {
+        if (!FragmentIndex.lazyPersistTimer) return;
+
+        clearTimeout(FragmentIndex.lazyPersistTimer);
+        FragmentIndex.lazyPersistTimer = null;
+        await FragmentIndex.persist();
+    }
+
+    private static schedulePersist(): void {
+        if (FragmentIndex.lazyPersistTimer) return;
+
+        FragmentIndex.lazyPersistTimer = setTimeout(() => {
+            FragmentIndex.lazyPersistTimer = null;
+            FragmentIndex.persist().catch(error => {
+                log.error("Error saving fragment index", error);
+            });
+        }, 5000);
+    }
+
+    private static persist(): Promise<void> {
+        // Serialize writes so an older snapshot can never be renamed over a newer one
+        const write = FragmentIndex.writeQueue.then(async () => {
+            const data = JSON.stringify(Array.from(FragmentIndex.records.values()));
+            const indexPath = ConfigOverrides.getDataPath(FRAGMENT_INDEX_FILE);
+            const tmpPath = `${indexPath}.tmp`;
+            await fs.promises.writeFile(tmpPath, data, 'utf8');
+            await fs.promises.rename(tmpPath, indexPath);
+        });
+        FragmentIndex.writeQueue = write.catch(() => undefined);
+        return write;
+    }
+}
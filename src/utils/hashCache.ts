@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import { HASH_CACHE_FILE } from '../config/constants';
+import ConfigOverrides from './overrides';
+import Logger from './logger';
+
+const log = Logger.get('hash-cache');
+
+interface HashCacheEntry {
+    size: number
+    mtimeMs: number
+    hash: string
+}
+
+/**
+ * On-disk cache of fragment hashes keyed by path, valid while size and mtime are unchanged
+ */
+export default class HashCache {
+    private static entries?: Map<string, HashCacheEntry>;
+    private static saveTimer: NodeJS.Timeout | null = null;
+
+    public static get(filePath: string, stat: fs.Stats): string | undefined {
+        const entry = HashCache.load().get(filePath);
+        if (entry && entry.size === stat.size && entry.mtimeMs === stat.mtimeMs) {
+            return entry.hash;
+        }
+        return undefined;
+    }
+
+    public static set(filePath: string, stat: fs.Stats, hash: string): void {
+        HashCache.load().set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, hash });
+        HashCache.scheduleSave();
+    }
+
+    public static delete(filePath: string): void {
+        if (HashCache.load().delete(filePath)) {
+            HashCache.scheduleSave();
+        }
+    }
+
+    /**
+     * Drops entries for files that are no longer part of the store
+     */
+    public static prune(validPaths: string[]): void {
+        const valid = new Set(validPaths);
+        let changed = false;
+        HashCache.load().forEach((_, filePath) => {
+            if (!valid.has(filePath)) {
+                HashCache.entries!.delete(filePath);
+                changed = true;
+            }
+        });
+        if (changed) {
+            HashCache.scheduleSave();
+        }
+    }
+
+    public static async save(): Promise<void> {
+        if (HashCache.saveTimer) {
+            clearTimeout(HashCache.saveTimer);
+            HashCache.saveTimer = null;
+        }
+        if (!HashCache.entries) return;
+
+        const data = JSON.stringify(Object.fromEntries(HashCache.entries));
+        const cachePath = ConfigOverrides.getDataPath(HASH_CACHE_FILE);
+        const tmpPath = `${cachePath}.tmp`;
+        try {
+            await fs.promises.writeFile(tmpPath, data, 'utf8');
+            await fs.promises.rename(tmpPath, cachePath);
+        } catch (error) {
+            log.error("Error saving hash cache", error);
+        }
+    }
+
+    private static load(): Map<string, HashCacheEntry> {
+        if (HashCache.entries) {
+            return HashCache.entries;
+        }
+
+        HashCache.entries = new Map();
+        try {
+            const cachePath = ConfigOverrides.getDataPath(HASH_CACHE_FILE);
+            if (fs.existsSync(cachePath)) {
+                const data = JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+                HashCache.entries = new Map(Object.entries(data));
+            }
+        } catch (error) {
+            // A corrupt cache only costs a rehash
+            log.warn("Hash cache is unreadable, starting empty", { error: String(error) });
+        }
+        return HashCache.entries;
+    }
+
+    private static scheduleSave(): void {
+        if (HashCache.saveTimer) return;
+        HashCache.saveTimer = setTimeout(() => {
+            HashCache.saveTimer = null;
+            HashCache.save();
+        }, 1000);
+    }
+}
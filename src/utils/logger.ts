@@ -0,0 +1,120 @@
+import { LogLevel, LoggingConfig } from '../types';
+
+export interface LogContext {
+    server?: string
+    peer_id?: string
+    session_id?: string
+    fragment_id?: string
+    [key: string]: unknown
+}
+
+const LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: 100
+};
+
+/**
+ * Leveled logger writing one line per entry, as JSON or as readable text.
+ * Each module gets its own logger so levels can be tuned per module in
+ * `logging.modules`; `child` adds correlation fields to every entry.
+ */
+export default class Logger {
+    private static config: LoggingConfig = { level: 'info', format: 'text', modules: {} };
+
+    private module: string;
+    private context: LogContext;
+
+    constructor(module: string, context: LogContext = {}) {
+        this.module = module;
+        this.context = context;
+    }
+
+    public static configure(config: LoggingConfig): void {
+        Logger.config = config;
+    }
+
+    public static get(module: string): Logger {
+        return new Logger(module);
+    }
+
+    public child(context: LogContext): Logger {
+        return new Logger(this.module, { ...this.context, ...context });
+    }
+
+    public debug(message: string, fields?: LogContext): void {
+        this.write('debug', message, fields);
+    }
+
+    public info(message: string, fields?: LogContext): void {
+        this.write('info', message, fields);
+    }
+
+    public warn(message: string, fields?: LogContext): void {
+        this.write('warn', message, fields);
+    }
+
+    /**
+     * `error` may be anything that was thrown, it is logged with its message and stack
+     */
+    public error(message: string, error?: unknown, fields?: LogContext): void {
+        this.write('error', message, { ...fields, ...Logger.describeError(error) });
+    }
+
+    public isEnabled(level: LogLevel): boolean {
+        const threshold = Logger.config.modules?.[this.module] ?? Logger.config.level;
+        return LEVELS[level] >= LEVELS[threshold];
+    }
+
+    private write(level: LogLevel, message: string, fields?: LogContext): void {
+        if (!this.isEnabled(level)) return;
+
+        const entry: Record<string, unknown> = {
+            time: new Date().toISOString(),
+            level,
+            module: this.module,
+            msg: message,
+            ...this.context,
+            ...fields
+        };
+        const line = Logger.config.format === 'json' ? Logger.toJson(entry) : Logger.toText(entry);
+
+        if (level === 'error' || level === 'warn') {
+            process.stderr.write(line + '\n');
+        } else {
+            process.stdout.write(line + '\n');
+        }
+    }
+
+    private static describeError(error: unknown): LogContext {
+        if (error === undefined) return {};
+        if (error instanceof Error) {
+            return { error: error.message, stack: error.stack };
+        }
+        return { error: String(error) };
+    }
+
+    private static toJson(entry: Record<string, unknown>): string {
+        try {
+            return JSON.stringify(entry);
+        } catch {
+            return JSON.stringify({ ...entry, msg: `${entry.msg} (fields not serializable)` });
+        }
+    }
+
+    private static toText(entry: Record<string, unknown>): string {
+        const { time, level, module, msg, stack, ...fields } = entry;
+        const details = Object.entries(fields)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+            .join(' ');
+
+        let line = `${time} ${String(level).toUpperCase().padEnd(5)} [${module}] ${msg}${details ? ` ${details}` : ''}`;
+        if (stack && Logger.config.level === 'debug') {
+            line += `\n${stack}`;
+        }
+        return line;
+    }
+}
@@ -0,0 +1,177 @@
+import Logger from './logger';
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+    render(): string[]
+}
+
+const log = Logger.get('metrics');
+
+const DURATION_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const THROUGHPUT_BUCKETS = [64e3, 256e3, 1e6, 4e6, 16e6, 64e6, 256e6]; // bytes per second
+const RTT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+function labelKey(labels: Labels): string {
+    return Object.keys(labels).sort().map(key => `${key}="${escapeLabel(String(labels[key]))}"`).join(',');
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function series(name: string, key: string, value: number): string {
+    return `${name}${key ? `{${key}}` : ''} ${value}`;
+}
+
+export class Counter implements Metric {
+    private name: string;
+    private help: string;
+    private values: Map<string, number> = new Map();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    public inc(value: number = 1, labels: Labels = {}): void {
+        const key = labelKey(labels);
+        this.values.set(key, (this.values.get(key) || 0) + value);
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        this.values.forEach((value, key) => lines.push(series(this.name, key, value)));
+        return lines;
+    }
+}
+
+export class Gauge implements Metric {
+    private name: string;
+    private help: string;
+    private values: Map<string, number> = new Map();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    public set(value: number, labels: Labels = {}): void {
+        this.values.set(labelKey(labels), value);
+    }
+
+    /**
+     * Drops every series, used before re-collecting gauges whose label sets change
+     */
+    public reset(): void {
+        this.values.clear();
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+        this.values.forEach((value, key) => lines.push(series(this.name, key, value)));
+        return lines;
+    }
+}
+
+export class Histogram implements Metric {
+    private name: string;
+    private help: string;
+    private buckets: number[];
+    private counts: number[];
+    private sum = 0;
+    private count = 0;
+
+    constructor(name: string, help: string, buckets: number[]) {
+        this.name = name;
+        this.help = help;
+        this.buckets = [...buckets].sort((a, b) => a - b);
+        this.counts = new Array(this.buckets.length).fill(0);
+    }
+
+    public observe(value: number): void {
+        this.buckets.forEach((bound, i) => {
+            if (value <= bound) this.counts[i]++;
+        });
+        this.sum += value;
+        this.count++;
+    }
+
+    public render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        this.buckets.forEach((bound, i) => lines.push(series(`${this.name}_bucket`, `le="${bound}"`, this.counts[i])));
+        lines.push(series(`${this.name}_bucket`, 'le="+Inf"', this.count));
+        lines.push(series(`${this.name}_sum`, '', this.sum));
+        lines.push(series(`${this.name}_count`, '', this.count));
+        return lines;
+    }
+}
+
+/**
+ * Process-wide metrics in the Prometheus text format. Event metrics are updated
+ * where things happen, gauges are filled by the collectors right before a scrape.
+ */
+export default class MetricsUtils {
+    public static readonly bytesServed = new Counter(
+        'p2p_node_bytes_served_total', 'Fragment bytes sent to clients');
+    public static readonly transfers = new Counter(
+        'p2p_node_transfers_total', 'Fragment requests by reported status');
+    public static readonly peerBytesSent = new Counter(
+        'p2p_node_peer_bytes_sent_total', 'Bytes sent on peer data channels');
+    public static readonly peerBytesReceived = new Counter(
+        'p2p_node_peer_bytes_received_total', 'Bytes received on peer data channels');
+    public static readonly downloads = new Counter(
+        'p2p_node_downloads_total', 'Fragment downloads by result');
+    public static readonly replications = new Counter(
+        'p2p_node_replications_total', 'Fragments replicated from other nodes by result');
+    public static readonly evictions = new Counter(
+        'p2p_node_evictions_total', 'Fragments removed to stay within the storage quota by reason');
+    public static readonly transferDrainWaits = new Counter(
+        'p2p_node_transfer_drain_waits_total', 'Times a completed transfer waited for its data channel to drain');
+    public static readonly transferDrainWaitSeconds = new Counter(
+        'p2p_node_transfer_drain_wait_seconds_total', 'Time completed transfers spent waiting for their data channel to drain');
+
+    public static readonly transferDuration = new Histogram(
+        'p2p_node_transfer_duration_seconds', 'Duration of completed transfers', DURATION_BUCKETS);
+    public static readonly transferThroughput = new Histogram(
+        'p2p_node_transfer_throughput_bytes_per_second', 'Throughput of completed transfers', THROUGHPUT_BUCKETS);
+    public static readonly peerRtt = new Histogram(
+        'p2p_node_peer_rtt_seconds', 'Round trip time samples of connected peers', RTT_BUCKETS);
+
+    public static readonly peers = new Gauge(
+        'p2p_node_peers', 'Connected peers');
+    public static readonly activeSessions = new Gauge(
+        'p2p_node_active_sessions', 'Transfers currently running');
+    public static readonly queuedSessions = new Gauge(
+        'p2p_node_queued_sessions', 'Transfers waiting for a slot');
+    public static readonly signalingConnections = new Gauge(
+        'p2p_node_signaling_connections', 'Signaling servers the node is signed in to');
+    public static readonly fragments = new Gauge(
+        'p2p_node_fragments', 'Fragments in the index');
+    public static readonly storageAvailable = new Gauge(
+        'p2p_node_storage_available_bytes', 'Usable free space per storage path');
+    public static readonly cpuUsage = new Gauge(
+        'p2p_node_cpu_usage_percent', 'Current CPU load');
+    public static readonly ramAvailable = new Gauge(
+        'p2p_node_ram_available_bytes', 'Available memory');
+
+    private static collectors: Array<() => Promise<void> | void> = [];
+
+    public static addCollector(collector: () => Promise<void> | void): void {
+        MetricsUtils.collectors.push(collector);
+    }
+
+    public static async render(): Promise<string> {
+        const results = await Promise.allSettled(MetricsUtils.collectors.map(collector => collector()));
+        results.forEach(result => {
+            if (result.status === 'rejected') {
+                log.warn("Metrics collector failed", { error: String(result.reason) });
+            }
+        });
+
+        const metrics: Metric[] = Object.values(MetricsUtils).filter(value =>
+            value instanceof Counter || value instanceof Gauge || value instanceof Histogram
+        );
+        return metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+    }
+}
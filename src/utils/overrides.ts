@@ -0,0 +1,146 @@
+import * as path from 'path';
+import { AppConfig } from '../types';
+import { SETTING_PATH } from '../config/constants';
+
+type OverrideName = 'config' | 'signaling_servers' | 'ice_servers' | 'paths' | 'node_id' | 'node_token';
+
+const OPTIONS: Record<OverrideName, { flag: string, env: string, description: string }> = {
+    config: {
+        flag: '--config', env: 'P2P_NODE_CONFIG',
+        description: 'Settings file to use instead of node-settings.json'
+    },
+    signaling_servers: {
+        flag: '--signaling-servers', env: 'P2P_NODE_SIGNALING_SERVERS',
+        description: 'Comma separated signaling server URLs'
+    },
+    ice_servers: {
+        flag: '--ice-servers', env: 'P2P_NODE_ICE_SERVERS',
+        description: 'Comma separated STUN/TURN URLs, or a JSON array of ICE servers'
+    },
+    paths: {
+        flag: '--paths', env: 'P2P_NODE_PATHS',
+        description: 'Comma separated storage paths, each optionally followed by :<threshold>'
+    },
+    node_id: {
+        flag: '--node-id', env: 'P2P_NODE_ID',
+        description: 'Node id, set together with the node token'
+    },
+    node_token: {
+        flag: '--node-token', env: 'P2P_NODE_TOKEN',
+        description: 'Node auth token, prefer the environment variable over the flag'
+    }
+};
+
+function splitList(value: string): string[] {
+    return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
+/**
+ * Settings given on the command line or in the environment. They take precedence
+ * over the settings file: command-line flag, then environment variable, then
+ * node-settings.json, then the built-in defaults. Overrides are never saved.
+ */
+export default class ConfigOverrides {
+    private static values: Partial<Record<OverrideName, string>> | null = null;
+
+    /**
+     * Parses the flags and environment variables once, at startup
+     * @throws Error naming the flag or variable that is invalid
+     */
+    public static load(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): void {
+        const values: Partial<Record<OverrideName, string>> = {};
+        const names = Object.keys(OPTIONS) as OverrideName[];
+
+        names.forEach(name => {
+            const value = env[OPTIONS[name].env];
+            if (value !== undefined && value !== '') values[name] = value;
+        });
+
+        for (let i = 0; i < argv.length; i++) {
+            const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+            const name = names.find(candidate => OPTIONS[candidate].flag === flag);
+            if (!name) {
+                throw new Error(`Unknown option ${argv[i]}, see --help`);
+            }
+
+            const value = inlineValue !== undefined ? inlineValue : argv[++i];
+            if (value === undefined || value === '') {
+                throw new Error(`${flag} needs a value`);
+            }
+            values[name] = value;
+        }
+
+        if ((values.node_id === undefined) !== (values.node_token === undefined)) {
+            throw new Error(`The node id and token must be overridden together (${OPTIONS.node_id.env}, ${OPTIONS.node_token.env})`);
+        }
+
+        ConfigOverrides.values = values;
+        // Parse everything now so mistakes are reported before the node starts
+        ConfigOverrides.getSettings();
+    }
+
+    public static getUsage(): string {
+        const lines = (Object.keys(OPTIONS) as OverrideName[]).map(name => {
+            const option = OPTIONS[name];
+            return `  ${option.flag.padEnd(20)} ${option.env.padEnd(28)} ${option.description}`;
+        });
+        return ['Options (flag, environment variable):', ...lines].join('\n');
+    }
+
+    public static has(name: OverrideName): boolean {
+        return ConfigOverrides.getValues()[name] !== undefined;
+    }
+
+    public static getSettingsPath(): string {
+        const configPath = ConfigOverrides.getValues().config;
+        return configPath ? path.resolve(configPath) : SETTING_PATH;
+    }
+
+    /**
+     * Location of a file the node keeps next to its settings file
+     */
+    public static getDataPath(fileName: string): string {
+        return path.join(path.dirname(ConfigOverrides.getSettingsPath()), fileName);
+    }
+
+    /**
+     * The overridden settings sections, to be merged over the settings file
+     */
+    public static getSettings(): Partial<AppConfig> {
+        const values = ConfigOverrides.getValues();
+        const settings: Partial<AppConfig> = {};
+
+        if (values.signaling_servers !== undefined) {
+            settings.signaling_servers = splitList(values.signaling_servers) as AppConfig['signaling_servers'];
+        }
+        if (values.ice_servers !== undefined) {
+            settings.webrtc = { iceServers: ConfigOverrides.parseIceServers(values.ice_servers) };
+        }
+        if (values.paths !== undefined) {
+            settings.paths = splitList(values.paths).map(entry => {
+                // A trailing :<number> is the threshold, other colons belong to the path
+                const match = /^(.*?)(?::(\d+(?:\.\d+)?))?$/.exec(entry)!;
+                return { path: path.resolve(match[1]), threshold: match[2] !== undefined ? Number(match[2]) : 80 };
+            });
+        }
+        if (values.node_id !== undefined && values.node_token !== undefined) {
+            settings.info = { id: values.node_id, auth_token: values.node_token };
+        }
+        return settings;
+    }
+
+    private static parseIceServers(value: string): AppConfig['webrtc']['iceServers'] {
+        if (!value.trim().startsWith('[')) {
+            return splitList(value).map(url => ({ urls: url })) as AppConfig['webrtc']['iceServers'];
+        }
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            throw new Error(`${OPTIONS.ice_servers.flag} / ${OPTIONS.ice_servers.env} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private static getValues(): Partial<Record<OverrideName, string>> {
+        return ConfigOverrides.values || {};
+    }
+}
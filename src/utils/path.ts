@@ -2,8 +2,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as si from 'systeminformation';
 import { AppConfig, StoragePath, FileSystemInfo } from '../types';
+import { FS_SIZE_CACHE_TTL } from '../config/constants';
 
 export default class PathUtils {
+    private static fsSizeCache?: { at: number, data: Promise<si.Systeminformation.FsSizeData[]> };
+
     public static async analyzeStoragePath(storagePath: StoragePath): Promise<FileSystemInfo> {
         try {
             const { path, threshold } = storagePath;
@@ -12,7 +15,7 @@ export default class PathUtils {
                 throw new Error(`Storage path does not exist: ${path}`);
             }
 
-            const fsInfo = await si.fsSize();
+            const fsInfo = await this.getFsSize();
             let relevantFs: si.Systeminformation.FsSizeData | undefined;
             let longestMatch = 0;
 
@@ -35,7 +38,10 @@ export default class PathUtils {
                 path,
                 filesystem: relevantFs.fs,
                 mount: relevantFs.mount,
-                availableSpace: Math.min(relevantFs.available, thresholdLimit)
+                // Room left below the threshold, the same limit the quota checks evict down to
+                availableSpace: Math.min(relevantFs.available, Math.max(0, thresholdLimit - relevantFs.used)),
+                size: relevantFs.size,
+                used: relevantFs.used
             };
         } catch (error) {
             throw new Error(`Failed to analyze storage path ${storagePath.path}: ${error instanceof Error ? error.message : String(error)}`);
@@ -47,18 +53,24 @@ export default class PathUtils {
         return res;
     }
 
-    public static async findMostFreePath(storagePaths: StoragePath[]): Promise<FileSystemInfo | undefined> {
-        if (storagePaths.length === 0) {
-            return undefined;
+    /**
+     * Forgets the cached filesystem sizes, e.g. after a fragment was written
+     */
+    public static invalidateFsSize(): void {
+        this.fsSizeCache = undefined;
+    }
+
+    // Querying every mount is slow, so concurrent and closely following callers share one result
+    private static getFsSize(): Promise<si.Systeminformation.FsSizeData[]> {
+        const now = Date.now();
+        if (!this.fsSizeCache || now - this.fsSizeCache.at > FS_SIZE_CACHE_TTL) {
+            const data = si.fsSize();
+            this.fsSizeCache = { at: now, data };
+            data.catch(() => {
+                if (this.fsSizeCache?.data === data) this.fsSizeCache = undefined;
+            });
         }
-        
-        const analyzedPaths = await this.analyzeStoragePaths(storagePaths);
-        
-        // Sort by available space (descending)
-        analyzedPaths.sort((a, b) => b.availableSpace - a.availableSpace);
-        
-        // Return the path with the most available space
-        return analyzedPaths[0];
+        return this.fsSizeCache.data;
     }
 
     public static async checkUniqueMounts(storagePaths: StoragePath[]): Promise<void> {
@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { FileSystemInfo, PlacementStrategy, StoragePath } from '../types';
+import { isLocalLocation } from '../storage/location';
+import PathUtils from './path';
+import SettingUtils from './setting';
+import FragmentIndex from './fragmentIndex';
+import Logger from './logger';
+
+const log = Logger.get('placement');
+
+export interface PathReservation {
+    path: string
+    size: number
+    // Room the path had left when it was reserved, the limit for fragments of unknown size
+    available: number
+    release(): void
+}
+
+interface PathUsage {
+    count: number
+    bytes: number
+}
+
+interface Candidate {
+    storagePath: StoragePath
+    available: number
+}
+
+/**
+ * Decides which storage path a new fragment goes to. Space claimed by downloads
+ * still in progress is reserved, so concurrent downloads cannot both count on
+ * the same headroom.
+ */
+export default class PlacementUtils {
+    private static reservations: Set<PathReservation> = new Set();
+    private static roundRobinNext = 0;
+    private static weightedCredits: Map<string, number> = new Map();
+
+    /**
+     * Picks a path for a fragment of `size` bytes and holds the space until the
+     * reservation is released. Returns undefined when no path can take it.
+     * @param size - 0 when the size is not known yet, any path with room left qualifies
+     */
+    public static async reserve(size: number): Promise<PathReservation | undefined> {
+        const storagePaths = SettingUtils.getRemotePaths();
+        if (storagePaths.length === 0) {
+            return undefined;
+        }
+        const analyzed = await PathUtils.analyzeStoragePaths(storagePaths);
+
+        // Nothing below awaits, so the next caller already sees this reservation
+        const candidates = PlacementUtils.getCandidates(storagePaths, analyzed)
+            .filter(candidate => PlacementUtils.fits(candidate, size));
+        const strategy = SettingUtils.getStorageConfig().placement || 'most_free';
+        const chosen = PlacementUtils.choose(strategy, candidates, storagePaths);
+        if (!chosen) {
+            return undefined;
+        }
+
+        const reservation: PathReservation = {
+            path: chosen.storagePath.path,
+            size,
+            available: chosen.available,
+            release: () => {
+                if (PlacementUtils.reservations.delete(reservation)) {
+                    // The fragment is on disk now or gone, the next placement needs fresh numbers
+                    PathUtils.invalidateFsSize();
+                }
+            }
+        };
+        PlacementUtils.reservations.add(reservation);
+        log.debug("Reserved space", { path: reservation.path, size, strategy });
+        return reservation;
+    }
+
+    /**
+     * Largest fragment one of the paths could take right now
+     */
+    public static async getFreeSpace(): Promise<number> {
+        const storagePaths = SettingUtils.getRemotePaths();
+        const analyzed = await PathUtils.analyzeStoragePaths(storagePaths);
+        return PlacementUtils.getCandidates(storagePaths, analyzed)
+            .filter(candidate => PlacementUtils.fits(candidate, 0))
+            .reduce((max, candidate) => Math.max(max, candidate.available), 0);
+    }
+
+    /**
+     * Room left in each path after in-flight reservations and its own limits.
+     * Paths at their fragment limit are left out.
+     */
+    private static getCandidates(storagePaths: StoragePath[], analyzed: FileSystemInfo[]): Candidate[] {
+        const usage = PlacementUtils.getUsage();
+        const candidates: Candidate[] = [];
+
+        storagePaths.forEach((storagePath, i) => {
+            const used = usage.get(storagePath.path) || { count: 0, bytes: 0 };
+            const reserved = PlacementUtils.getReserved(storagePath.path);
+
+            if (storagePath.max_fragments !== undefined && used.count + reserved.count >= storagePath.max_fragments) {
+                return;
+            }
+
+            // Reserved bytes already written are counted twice until the sizes are re-read, which errs on the safe side
+            let available = analyzed[i].availableSpace - reserved.bytes;
+            if (storagePath.max_size !== undefined) {
+                available = Math.min(available, storagePath.max_size - used.bytes - reserved.bytes);
+            }
+            candidates.push({ storagePath, available });
+        });
+        return candidates;
+    }
+
+    private static fits(candidate: Candidate, size: number): boolean {
+        return size > 0 ? candidate.available >= size : candidate.available > 0;
+    }
+
+    private static choose(strategy: PlacementStrategy, candidates: Candidate[], storagePaths: StoragePath[]): Candidate | undefined {
+        if (candidates.length === 0) {
+            return undefined;
+        }
+
+        switch (strategy) {
+            case 'fill_first':
+                // Candidates keep the configured order
+                return candidates[0];
+            case 'round_robin':
+                // Continue after the last pick, skipping paths that cannot take the fragment
+                for (let offset = 0; offset < storagePaths.length; offset++) {
+                    const index = (PlacementUtils.roundRobinNext + offset) % storagePaths.length;
+                    const candidate = candidates.find(c => c.storagePath === storagePaths[index]);
+                    if (candidate) {
+                        PlacementUtils.roundRobinNext = index + 1;
+                        return candidate;
+                    }
+                }
+                return undefined;
+            case 'weighted':
+                return PlacementUtils.chooseWeighted(candidates);
+            case 'most_free':
+            default:
+                return candidates.reduce((best, candidate) => candidate.available > best.available ? candidate : best);
+        }
+    }
+
+    /**
+     * Smooth weighted round-robin: every path earns its weight in credit per pick
+     * and the richest one pays the total, so picks are spread evenly in proportion
+     * to the weights instead of coming in bursts
+     */
+    private static chooseWeighted(candidates: Candidate[]): Candidate {
+        let total = 0;
+        let chosen = candidates[0];
+        let chosenCredit = -Infinity;
+
+        for (const candidate of candidates) {
+            const weight = candidate.storagePath.weight ?? 1;
+            const credit = (PlacementUtils.weightedCredits.get(candidate.storagePath.path) || 0) + weight;
+            PlacementUtils.weightedCredits.set(candidate.storagePath.path, credit);
+            total += weight;
+            if (credit > chosenCredit) {
+                chosen = candidate;
+                chosenCredit = credit;
+            }
+        }
+
+        PlacementUtils.weightedCredits.set(chosen.storagePath.path, chosenCredit - total);
+        return chosen;
+    }
+
+    // Fragments per storage path according to the index
+    private static getUsage(): Map<string, PathUsage> {
+        const usage = new Map<string, PathUsage>();
+        for (const record of FragmentIndex.getAll()) {
+            if (!isLocalLocation(record.path)) continue;
+
+            const dir = path.dirname(record.path);
+            const entry = usage.get(dir) || { count: 0, bytes: 0 };
+            entry.count++;
+            entry.bytes += record.size;
+            usage.set(dir, entry);
+        }
+        return usage;
+    }
+
+    private static getReserved(storagePath: string): PathUsage {
+        const reserved = { count: 0, bytes: 0 };
+        PlacementUtils.reservations.forEach(reservation => {
+            if (reservation.path === storagePath) {
+                reserved.count++;
+                reserved.bytes += reservation.size;
+            }
+        });
+        return reserved;
+    }
+}
@@ -1,66 +1,193 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { SETTING_PATH, DEFAULT_SETTING, REMOTE_PATH_NAME } from '../config/constants';
-import { AppConfig, StoragePath, AppInfo } from '../types';
+import { DEFAULT_SETTING, REMOTE_PATH_NAME, CONFIG_VERSION } from '../config/constants';
+import { AppConfig, StoragePath, AppInfo, StorageConfig, TransferLimits, ScrubConfig, QuotaConfig, DownloadConfig, SignalingConfig, AdminConfig, MetricsConfig, LoggingConfig } from '../types';
 import PathUtils from './path';
+import FragmentIndex from './fragmentIndex';
+import Logger from './logger';
+import ConfigSchema from './configSchema';
+import ConfigOverrides from './overrides';
+
+const log = Logger.get('settings');
 
 export default class SettingUtils {
     private static config?: AppConfig;
+    // Contents of the settings file, without overrides, null when there is no file
+    private static stored: Record<string, unknown> | null = null;
     private static remotePaths: StoragePath[] = [];
-    private static fragmentMap: Map<string, string> = new Map<string, string>();
+
+    public static getSettingsPath(): string {
+        return ConfigOverrides.getSettingsPath();
+    }
 
     /**
-     * Checks if the settings file exists, creates it with default values if it doesn't
+     * Checks if the settings file exists, creates it with default values if it doesn't.
+     * Storage paths given as overrides are enough to run without a settings file.
      */
     public static checkSettingsFileExists(): boolean {
         try {
-            if (fs.existsSync(SETTING_PATH)) {
+            if (fs.existsSync(SettingUtils.getSettingsPath()) || ConfigOverrides.has('paths')) {
                 return true;
             } else {
-                fs.writeFileSync(SETTING_PATH, JSON.stringify(DEFAULT_SETTING, null, 2), 'utf8');
+                SettingUtils.writeSettingsFile(DEFAULT_SETTING);
                 return false;
             }
         } catch (error) {
-            console.error('Error checking or creating settings file:', error);
+            log.error("Error checking or creating settings file", error);
             return false;
         }
     }
 
     /**
-     * Loads settings from the settings file
+     * Loads settings from the settings file, migrating older layouts, applying the
+     * command-line and environment overrides and validating every field
      */
     public static async loadSettings(): Promise<AppConfig> {
         try {
-            const data = fs.readFileSync(SETTING_PATH, 'utf8');
-            SettingUtils.config = JSON.parse(data);
+            SettingUtils.loadConfig();
+            await PathUtils.checkUniqueMounts(SettingUtils.config!.paths);
 
-            if (!SettingUtils.config) {
-                throw new Error("No valid config found");
-            }
+            SettingUtils.createRemoteDir();
+            await SettingUtils.loadFragmentIndex();
 
-            if (SettingUtils.config.paths) {
-                await PathUtils.checkUniqueMounts(SettingUtils.config.paths);
-            } else {
-                throw new Error("No valid paths found");
-            }
+            return SettingUtils.config!;
+        } catch (error) {
+            throw new Error(`Error loading settings: ${error}`);
+        }
+    }
+
+    /**
+     * Reads and validates the settings without preparing the storage paths or the
+     * fragment index, for tools that only inspect the node
+     * @param configureLogging - Set to false to keep the current logging settings
+     */
+    public static loadConfig(configureLogging = true): AppConfig {
+        const { config, stored, migrated } = SettingUtils.readSettings();
+        SettingUtils.config = config;
+        SettingUtils.stored = stored;
+        if (configureLogging) {
+            Logger.configure(SettingUtils.getLoggingConfig());
+        }
+
+        if (migrated) {
+            SettingUtils.saveSettings();
+            log.info("Settings migrated", { version: CONFIG_VERSION });
+        }
+
+        SettingUtils.updateRemotePaths();
+        return config;
+    }
+
+    /**
+     * Validates `config` and writes it as the settings file
+     * @throws ConfigValidationError when a field is invalid
+     */
+    public static createSettings(config: AppConfig): void {
+        SettingUtils.writeSettingsFile(ConfigSchema.validate(config));
+    }
+
+    /**
+     * Re-reads the settings file and applies it. An invalid file is rejected and the
+     * running settings are kept. `info` is owned by the node and never reloaded.
+     * @returns The top-level sections that changed
+     */
+    public static async reloadSettings(): Promise<Array<keyof AppConfig>> {
+        const previous = SettingUtils.config;
+        if (!previous) {
+            throw new Error("Settings are not loaded");
+        }
+
+        const { config, stored } = SettingUtils.readSettings();
+        config.info = previous.info;
+        SettingUtils.stored = stored;
+
+        const sections = new Set([...Object.keys(previous), ...Object.keys(config)]) as Set<keyof AppConfig>;
+        const changed = Array.from(sections).filter(section =>
+            JSON.stringify(previous[section]) !== JSON.stringify(config[section])
+        );
+        if (changed.length === 0) return changed;
 
-            SettingUtils.updateRemotePaths();
+        const previousDirs = previous.paths.map(p => p.path).sort().join('\n');
+        const dirsChanged = config.paths.map(p => p.path).sort().join('\n') !== previousDirs;
+        if (dirsChanged) {
+            await PathUtils.checkUniqueMounts(config.paths);
+        }
+
+        SettingUtils.config = config;
+        Logger.configure(SettingUtils.getLoggingConfig());
+        SettingUtils.updateRemotePaths();
+        if (dirsChanged) {
             SettingUtils.createRemoteDir();
-            SettingUtils.createFragmentMap();
+            await FragmentIndex.reconcile(SettingUtils.getRemotePaths());
+        }
+
+        log.info("Settings reloaded", { changed });
+        return changed;
+    }
+
+    /**
+     * Saves the current settings to the settings file. Overridden sections keep their
+     * value from the file. A read-only settings file is logged, not thrown, the
+     * changes then last until the node restarts. Returns false when nothing was saved.
+     */
+    public static saveSettings(): boolean {
+        if (!SettingUtils.config) return false;
 
-            return SettingUtils.config;
+        const config: Record<string, unknown> = { ...SettingUtils.config };
+        Object.keys(ConfigOverrides.getSettings()).forEach(section => {
+            config[section] = SettingUtils.stored?.[section] ?? DEFAULT_SETTING[section as keyof AppConfig];
+        });
+
+        try {
+            SettingUtils.writeSettingsFile(config as unknown as AppConfig);
+            SettingUtils.stored = config;
+            return true;
         } catch (error) {
-            throw new Error(`Error loading settings: ${error}`);
+            log.warn("Settings not saved, changes last until restart", { error: error instanceof Error ? error.message : String(error) });
+            return false;
         }
     }
 
     /**
-     * Saves the current settings to the settings file
+     * Reads the settings file, or starts from the defaults without one, and merges the overrides
      */
-    public static saveSettings(): void {
-        if (SettingUtils.config) {
-            fs.writeFileSync(SETTING_PATH, JSON.stringify(SettingUtils.config, null, 2), 'utf8');
+    private static readSettings(): { config: AppConfig, stored: Record<string, unknown> | null, migrated: boolean } {
+        const settingsPath = SettingUtils.getSettingsPath();
+        let stored: Record<string, unknown> | null = null;
+        let migrated = false;
+
+        if (fs.existsSync(settingsPath)) {
+            let raw: unknown;
+            try {
+                raw = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+            } catch (error) {
+                throw new Error(`${settingsPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            }
+
+            const result = ConfigSchema.migrate(raw);
+            stored = result.config as Record<string, unknown>;
+            migrated = result.migrated;
+        }
+
+        const config = ConfigSchema.validate({ ...(stored || DEFAULT_SETTING), ...ConfigOverrides.getSettings() });
+        return { config, stored, migrated };
+    }
+
+    /**
+     * Writes to a temp file and renames it over the settings file, so a crash leaves
+     * either the old or the new settings and never a truncated file with the auth token
+     */
+    private static writeSettingsFile(config: AppConfig): void {
+        const settingsPath = SettingUtils.getSettingsPath();
+        const tmpPath = `${settingsPath}.tmp`;
+        const fd = fs.openSync(tmpPath, 'w', 0o600);
+        try {
+            fs.writeFileSync(fd, JSON.stringify(config, null, 2), 'utf8');
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
         }
+        fs.renameSync(tmpPath, settingsPath);
     }
 
     /**
@@ -87,6 +214,16 @@ export default class SettingUtils {
         return SettingUtils.config ? SettingUtils.config.signaling_servers as unknown as string[] : null;
     }
 
+    /**
+     * Gets the signaling connection settings, falling back to the defaults for missing fields
+     */
+    public static getSignalingConfig(): SignalingConfig {
+        return {
+            ...DEFAULT_SETTING.signaling!,
+            ...(SettingUtils.config?.signaling || {})
+        };
+    }
+
     /**
      * Gets the ICE servers from the settings
      */
@@ -101,6 +238,92 @@ export default class SettingUtils {
         return SettingUtils.config ? SettingUtils.config.paths : undefined;
     }
 
+    /**
+     * Gets the transfer limits, falling back to the defaults for missing fields
+     */
+    public static getTransferLimits(): TransferLimits {
+        return {
+            ...DEFAULT_SETTING.transfer!,
+            ...(SettingUtils.config?.transfer || {})
+        };
+    }
+
+    /**
+     * Gets the scrubber settings, falling back to the defaults for missing fields
+     */
+    public static getScrubConfig(): ScrubConfig {
+        return {
+            ...DEFAULT_SETTING.scrub!,
+            ...(SettingUtils.config?.scrub || {})
+        };
+    }
+
+    /**
+     * Gets the quota settings, falling back to the defaults for missing fields
+     */
+    public static getQuotaConfig(): QuotaConfig {
+        return {
+            ...DEFAULT_SETTING.quota!,
+            ...(SettingUtils.config?.quota || {})
+        };
+    }
+
+    /**
+     * Gets the storage backend settings, falling back to the defaults for missing fields
+     */
+    public static getStorageConfig(): StorageConfig {
+        return {
+            ...DEFAULT_SETTING.storage!,
+            ...(SettingUtils.config?.storage || {})
+        };
+    }
+
+    /**
+     * Gets the download settings, falling back to the defaults for missing fields
+     */
+    public static getDownloadConfig(): DownloadConfig {
+        return {
+            ...DEFAULT_SETTING.download!,
+            ...(SettingUtils.config?.download || {})
+        };
+    }
+
+    /**
+     * Gets the admin API settings, falling back to the defaults for missing fields
+     */
+    public static getAdminConfig(): AdminConfig {
+        return {
+            ...DEFAULT_SETTING.admin!,
+            ...(SettingUtils.config?.admin || {})
+        };
+    }
+
+    /**
+     * Gets the metrics endpoint settings, falling back to the defaults for missing fields
+     */
+    public static getMetricsConfig(): MetricsConfig {
+        return {
+            ...DEFAULT_SETTING.metrics!,
+            ...(SettingUtils.config?.metrics || {})
+        };
+    }
+
+    /**
+     * Gets the logging settings, falling back to the defaults for missing fields
+     */
+    public static getLoggingConfig(): LoggingConfig {
+        return {
+            ...DEFAULT_SETTING.logging!,
+            ...(SettingUtils.config?.logging || {})
+        };
+    }
+
+    public static setAdminToken(token: string): void {
+        if (SettingUtils.config) {
+            SettingUtils.config.admin = { ...SettingUtils.getAdminConfig(), token };
+        }
+    }
+
     public static getRemotePaths(): StoragePath[] {
         return SettingUtils.remotePaths;
     }
@@ -113,8 +336,8 @@ export default class SettingUtils {
             for (const localPath of configuredPaths) {
                 const remotePath = path.join(localPath.path, REMOTE_PATH_NAME);
                 remotePaths.push({
-                    path: remotePath,
-                    threshold: localPath.threshold
+                    ...localPath,
+                    path: remotePath
                 });
             }
             SettingUtils.remotePaths = remotePaths;
@@ -123,59 +346,27 @@ export default class SettingUtils {
         }
     }
 
-    private static createRemoteDir(): void {
-        const remotePaths = SettingUtils.getRemotePaths();
-        for (const remotePath of remotePaths) {
-            if (!fs.existsSync(remotePath.path)) {
-                fs.mkdirSync(remotePath.path, { recursive: true });
-            }
+    /**
+     * Loads the persisted fragment index. Without one the store is scanned before
+     * startup continues, otherwise the scan runs in the background.
+     */
+    private static async loadFragmentIndex(): Promise<void> {
+        if (FragmentIndex.load()) {
+            log.info(`Fragment index loaded: ${FragmentIndex.size()} fragments`);
+            FragmentIndex.reconcile(SettingUtils.getRemotePaths()).catch(error => {
+                log.error("Error reconciling fragment index", error);
+            });
+        } else {
+            await FragmentIndex.reconcile(SettingUtils.getRemotePaths());
         }
     }
 
-    private static createFragmentMap(): void {
+    private static createRemoteDir(): void {
         const remotePaths = SettingUtils.getRemotePaths();
-        SettingUtils.fragmentMap.clear();
-
         for (const remotePath of remotePaths) {
-            try {
-                if (!fs.existsSync(remotePath.path)) {
-                    throw new Error(`Remote path does not exist: ${remotePath.path}`);
-                }
-
-                const files = fs.readdirSync(remotePath.path);
-                for (const file of files) {
-                    const filePath = path.join(remotePath.path, file);
-
-                    try {
-                        const stat = fs.statSync(filePath);
-
-                        if (stat.isFile()) {
-                            SettingUtils.fragmentMap.set(file, filePath);
-                            console.log(`Fragment path added: ${file}`);
-                        }
-                    } catch (err) {
-                        throw new Error(`Error processing file ${filePath}: ${err}`);
-                    }
-                }
-            } catch (err) {
-                throw new Error(`Error reading directory ${remotePath.path}: ${err}`);
+            if (!fs.existsSync(remotePath.path)) {
+                fs.mkdirSync(remotePath.path, { recursive: true });
             }
         }
     }
-
-    public static getFragmentMap(): Map<string, string> {
-        return SettingUtils.fragmentMap;
-    }
-
-    public static getFragmentPath(fragmentId: string): string | undefined {
-        return SettingUtils.fragmentMap.get(fragmentId);
-    }
-
-    public static addFragmentPath(fragmentId: string, filePath: string): void {
-        SettingUtils.fragmentMap.set(fragmentId, filePath);
-    }
-
-    public static removeFragmentPath(fragmentId: string): void {
-        SettingUtils.fragmentMap.delete(fragmentId);
-    }
 }
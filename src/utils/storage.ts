@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { S3StorageConfig } from '../types';
+import type { ByteRange } from '../controllers/webrtc/types';
+import type { StorageBackend, StoredObject } from '../storage/types';
+import FileSystemBackend from '../storage/FileSystemBackend';
+import S3Backend from '../storage/S3Backend';
+import { isLocalLocation } from '../storage/location';
+import SettingUtils from './setting';
+import FileUtils from './file';
+import Logger from './logger';
+
+const log = Logger.get('storage');
+
+/**
+ * Picks the storage backend for a fragment. New fragments go to the configured
+ * backend, existing ones are read from wherever their location points, so
+ * switching backends does not strand fragments stored before.
+ */
+export default class StorageUtils {
+    private static fileSystem = new FileSystemBackend();
+    private static objectStorage?: { config: string, backend: S3Backend };
+
+    /**
+     * Backend new fragments are stored in
+     */
+    public static getBackend(): StorageBackend {
+        const { backend, s3 } = SettingUtils.getStorageConfig();
+        return backend === 's3' && s3 ? StorageUtils.getObjectStorage(s3) : StorageUtils.fileSystem;
+    }
+
+    public static usesObjectStorage(): boolean {
+        return StorageUtils.getBackend() !== StorageUtils.fileSystem;
+    }
+
+    /**
+     * @throws When the location belongs to a backend that is not configured anymore
+     */
+    public static forLocation(location: string): StorageBackend {
+        if (isLocalLocation(location)) {
+            return StorageUtils.fileSystem;
+        }
+
+        const { s3 } = SettingUtils.getStorageConfig();
+        const backend = s3 ? StorageUtils.getObjectStorage(s3) : undefined;
+        if (!backend?.owns(location)) {
+            throw new Error(`No storage backend configured for ${location}`);
+        }
+        return backend;
+    }
+
+    public static stat(location: string): Promise<StoredObject | undefined> {
+        return StorageUtils.forLocation(location).stat(location);
+    }
+
+    public static async exists(location: string): Promise<boolean> {
+        try {
+            return await StorageUtils.stat(location) !== undefined;
+        } catch (error) {
+            log.warn("Cannot check fragment", { location, error: error instanceof Error ? error.message : String(error) });
+            return false;
+        }
+    }
+
+    public static createReadStream(location: string, range?: ByteRange): Promise<Readable> {
+        return StorageUtils.forLocation(location).createReadStream(location, range);
+    }
+
+    /**
+     * Hashes the fragment like FileUtils.hashFile, files on disk keep using the hash cache
+     */
+    public static async hash(location: string, useCache = true, maxBytesPerSec = 0): Promise<string | undefined> {
+        if (isLocalLocation(location)) {
+            return FileUtils.hashFile(location, useCache, maxBytesPerSec);
+        }
+
+        try {
+            return await FileUtils.hashStream(await StorageUtils.createReadStream(location), maxBytesPerSec);
+        } catch (error) {
+            log.error("Error hashing fragment", error, { location });
+            return undefined;
+        }
+    }
+
+    public static async delete(location: string): Promise<void> {
+        try {
+            await StorageUtils.forLocation(location).delete(location);
+        } catch (error) {
+            log.error("Error deleting fragment", error, { location });
+        }
+    }
+
+    public static async deleteAll(locations: string[]): Promise<void> {
+        await Promise.all(locations.map(location => StorageUtils.delete(location)));
+    }
+
+    /**
+     * Moves a verified fragment from its staging file on disk into the configured
+     * backend and returns its location. With the filesystem backend the staging
+     * file already is the final one.
+     */
+    public static async commit(fragmentId: string, stagedPath: string, size: number): Promise<string> {
+        const backend = StorageUtils.getBackend();
+        if (backend === StorageUtils.fileSystem) {
+            return stagedPath;
+        }
+
+        try {
+            return await backend.put(fragmentId, fs.createReadStream(stagedPath), size);
+        } finally {
+            FileUtils.deleteFile(stagedPath);
+        }
+    }
+
+    // Recreated when the settings change, so reloaded credentials apply right away
+    private static getObjectStorage(config: S3StorageConfig): S3Backend {
+        const key = JSON.stringify(config);
+        if (StorageUtils.objectStorage?.config !== key) {
+            StorageUtils.objectStorage = { config: key, backend: new S3Backend(config) };
+        }
+        return StorageUtils.objectStorage.backend;
+    }
+}
@@ -0,0 +1,111 @@
+import { test, before, after, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Socket } from 'socket.io-client';
+import { FragmentClient, ReceiveError } from '../src/client';
+import WebRTCSocketController from '../src/controllers/webRTCSocket';
+import TransferScheduler from '../src/controllers/webrtc/TransferScheduler';
+import FragmentIndex from '../src/utils/fragmentIndex';
+import SettingUtils from '../src/utils/setting';
+import FileUtils from '../src/utils/file';
+import Logger from '../src/utils/logger';
+
+const FRAGMENT_ID = 'fragment-a';
+const FRAGMENT_SIZE = 300_000;
+
+/**
+ * Signaling server stand-in: relays every targeted event to the other end and
+ * stamps it with the sender's id, like the real server does
+ */
+class SignalingSocket extends EventEmitter {
+    public peer?: SignalingSocket;
+
+    constructor(public readonly id: string) {
+        super();
+    }
+
+    public emit(event: string, data?: { target?: string }): boolean {
+        const peer = this.peer;
+        if (!peer || !data?.target) return true;
+        setImmediate(() => EventEmitter.prototype.emit.call(peer, event, { ...data, target: undefined, source: this.id }));
+        return true;
+    }
+
+    public disconnect(): void {}
+}
+
+let dir: string;
+let hash: string;
+let node: WebRTCSocketController;
+let client: FragmentClient;
+
+before(async () => {
+    Logger.configure({ level: 'error', format: 'text' });
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'fragment-client-'));
+    const fragmentPath = path.join(dir, FRAGMENT_ID);
+    await fs.promises.writeFile(fragmentPath, randomBytes(FRAGMENT_SIZE));
+    hash = await FileUtils.hashStream(fs.createReadStream(fragmentPath));
+
+    // Keep the test away from the index and settings files of a real node
+    mock.method(FragmentIndex, 'getPath', (fragmentId: string) => fragmentId === FRAGMENT_ID ? fragmentPath : undefined);
+    mock.method(FragmentIndex, 'touch', () => undefined);
+    mock.method(SettingUtils, 'getIceServers', () => []);
+
+    const nodeSocket = new SignalingSocket('node');
+    const clientSocket = new SignalingSocket('client');
+    nodeSocket.peer = clientSocket;
+    clientSocket.peer = nodeSocket;
+
+    const scheduler = new TransferScheduler({
+        max_sessions: 4,
+        max_sessions_per_peer: 2,
+        max_queued_per_peer: 10,
+        max_upload_rate: 0,
+        max_upload_rate_per_peer: 0
+    });
+    node = new WebRTCSocketController(nodeSocket as unknown as Socket, scheduler, 'test');
+    client = new FragmentClient(clientSocket as unknown as Socket, { iceServers: [] });
+});
+
+after(async () => {
+    client.close();
+    node.cleanup();
+    mock.restoreAll();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+test('fetches a fragment and verifies its digest', async () => {
+    const destination = path.join(dir, 'received');
+    const received = await client.fetch('node', {
+        fragmentId: FRAGMENT_ID,
+        destination,
+        expectedHash: hash,
+        expectedSize: FRAGMENT_SIZE
+    });
+
+    assert.equal(received.size, FRAGMENT_SIZE);
+    assert.equal(received.hash, hash);
+    assert.deepEqual(await fs.promises.readFile(destination), await fs.promises.readFile(path.join(dir, FRAGMENT_ID)));
+});
+
+test('rejects a fragment that does not match the expected hash', async () => {
+    const destination = path.join(dir, 'mismatch');
+    await assert.rejects(
+        client.fetch('node', { fragmentId: FRAGMENT_ID, destination, expectedHash: '00'.repeat(32) }),
+        (error: unknown) => error instanceof ReceiveError && error.reason === 'hash_mismatch'
+    );
+    assert.equal(fs.existsSync(destination), false);
+    // The temp file is gone too
+    assert.deepEqual((await fs.promises.readdir(dir)).filter(name => name.startsWith('mismatch')), []);
+});
+
+test('fails when the node does not have the fragment', async () => {
+    await assert.rejects(
+        client.fetch('node', { fragmentId: 'missing', destination: path.join(dir, 'missing') }),
+        (error: unknown) => error instanceof ReceiveError && error.reason === 'transfer_failed'
+    );
+});
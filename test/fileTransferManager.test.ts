@@ -0,0 +1,136 @@
+import { test, before, after, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Socket } from 'socket.io-client';
+import FileTransferManager from '../src/controllers/webrtc/FileTransferManager';
+import RequestReporter from '../src/controllers/webrtc/RequestReporter';
+import TransferScheduler from '../src/controllers/webrtc/TransferScheduler';
+import { TransferMessageType, readChunkHeader } from '../src/controllers/webrtc/protocol';
+import type {
+    PeerConnectionData,
+    RangedRequestNodeMessage,
+    ResumeMessage,
+    SessionStartedMessage,
+    FragmentDigestMessage
+} from '../src/controllers/webrtc/types';
+import FragmentIndex from '../src/utils/fragmentIndex';
+import Logger from '../src/utils/logger';
+
+const FRAGMENT_ID = 'fragment-a';
+const FRAGMENT_SIZE = 200_000;
+
+type Message = { type: string, error?: string };
+
+/**
+ * Open data channel that keeps everything sent on it
+ */
+class RecordingChannel {
+    public readyState = 'open';
+    public bufferedAmount = 0;
+    public bufferedAmountLowThreshold = 0;
+    public onbufferedamountlow: (() => void) | null = null;
+    public readonly chunks: Buffer[] = [];
+    private messages: Message[] = [];
+    private waiters: { matches: (message: Message) => boolean, resolve: (message: Message) => void }[] = [];
+
+    public send(data: string | Buffer): void {
+        if (typeof data !== 'string') {
+            this.chunks.push(Buffer.from(data));
+            return;
+        }
+        const message: Message = JSON.parse(data);
+        const waiter = this.waiters.find(waiter => waiter.matches(message));
+        if (waiter) {
+            this.waiters.splice(this.waiters.indexOf(waiter), 1);
+            waiter.resolve(message);
+        } else {
+            this.messages.push(message);
+        }
+    }
+
+    /**
+     * Resolves with the first message sent that `matches` accepts, a message type or a check
+     */
+    public next<T>(matches: string | ((message: Message) => boolean)): Promise<T> {
+        const check = typeof matches === 'string' ? (message: Message) => message.type === matches : matches;
+        const sent = this.messages.find(check);
+        if (sent) {
+            this.messages.splice(this.messages.indexOf(sent), 1);
+            return Promise.resolve(sent as T);
+        }
+        return new Promise(resolve => this.waiters.push({ matches: check, resolve: resolve as (message: Message) => void }));
+    }
+}
+
+function connectPeer(): { channel: RecordingChannel, peerData: PeerConnectionData } {
+    const channel = new RecordingChannel();
+    const peerData = { dataChannel: channel, lastActivity: Date.now() } as unknown as PeerConnectionData;
+    return { channel, peerData };
+}
+
+let dir: string;
+let manager: FileTransferManager;
+
+before(async () => {
+    Logger.configure({ level: 'error', format: 'text' });
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'file-transfer-'));
+    const fragmentPath = path.join(dir, FRAGMENT_ID);
+    await fs.promises.writeFile(fragmentPath, randomBytes(FRAGMENT_SIZE));
+
+    mock.method(FragmentIndex, 'getPath', (fragmentId: string) => fragmentId === FRAGMENT_ID ? fragmentPath : undefined);
+    mock.method(FragmentIndex, 'touch', () => undefined);
+
+    const scheduler = new TransferScheduler({
+        max_sessions: 4,
+        max_sessions_per_peer: 2,
+        max_queued_per_peer: 10,
+        max_upload_rate: 0,
+        max_upload_rate_per_peer: 0
+    });
+    const reporter = new RequestReporter({ emit: () => true } as unknown as Socket);
+    manager = new FileTransferManager(reporter, scheduler, Logger.get('test'));
+});
+
+after(async () => {
+    mock.restoreAll();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+test('resumes a session under a new peer id with its resume token', async () => {
+    const first = connectPeer();
+    const request = { session_id: 'session-1', fragment_id: FRAGMENT_ID } as RangedRequestNodeMessage;
+    await manager.startTransfer(request, 'peer-a', first.peerData, () => undefined);
+    const started = await first.channel.next<SessionStartedMessage>(TransferMessageType.SESSION_STARTED);
+    await first.channel.next(TransferMessageType.FRAGMENT_DIGEST);
+    manager.acknowledgeTransfer('peer-a', 'session-1', 50_000);
+
+    const resume: ResumeMessage = { type: TransferMessageType.RESUME, session_id: 'session-1', fragment_id: FRAGMENT_ID };
+
+    // Without the token the session cannot be taken over
+    const intruder = connectPeer();
+    await manager.resumeTransfer(resume, 'peer-c', intruder.peerData, () => undefined);
+    const canceled = await intruder.channel.next<Message>(message => message.error !== undefined);
+    assert.equal(canceled.error, 'Session belongs to another peer');
+    assert.equal(intruder.channel.chunks.length, 0);
+
+    // The client reconnected as peer-b and continues after the acknowledged bytes
+    const reconnected = connectPeer();
+    await manager.resumeTransfer({ ...resume, resume_token: started.resume_token }, 'peer-b', reconnected.peerData, () => undefined);
+    const digest = await reconnected.channel.next<FragmentDigestMessage>(TransferMessageType.FRAGMENT_DIGEST);
+    assert.equal(digest.offset, 50_000);
+    assert.equal(digest.length, FRAGMENT_SIZE - 50_000);
+    assert.equal(readChunkHeader(reconnected.channel.chunks[0])?.offset, 50_000);
+
+    // Acknowledgements now count only from the new peer id
+    manager.acknowledgeTransfer('peer-a', 'session-1', FRAGMENT_SIZE);
+    manager.acknowledgeTransfer('peer-b', 'session-1', 100_000);
+    const again = connectPeer();
+    await manager.resumeTransfer(resume, 'peer-b', again.peerData, () => undefined);
+    const resumed = await again.channel.next<SessionStartedMessage>(TransferMessageType.SESSION_STARTED);
+    assert.equal(resumed.offset, 100_000);
+    assert.equal(resumed.resume_token, started.resume_token);
+    await again.channel.next(TransferMessageType.FRAGMENT_DIGEST);
+});
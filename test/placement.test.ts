@@ -0,0 +1,82 @@
+import { test, before, after, beforeEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Systeminformation } from 'systeminformation';
+import PlacementUtils from '../src/utils/placement';
+import PathUtils from '../src/utils/path';
+import SettingUtils from '../src/utils/setting';
+import FragmentIndex from '../src/utils/fragmentIndex';
+import type { StoragePath } from '../src/types';
+
+const SIZE = 1_000_000;
+
+let dir: string;
+let full: StoragePath;
+let roomy: StoragePath;
+// Bytes used per storage path, each path is a file system of its own
+const used: Map<string, number> = new Map();
+
+function fsSizeOf(storagePath: StoragePath): Systeminformation.FsSizeData {
+    const bytesUsed = used.get(storagePath.path) || 0;
+    return {
+        fs: storagePath.path,
+        type: 'ext4',
+        size: SIZE,
+        used: bytesUsed,
+        available: SIZE - bytesUsed,
+        use: bytesUsed / SIZE * 100,
+        mount: storagePath.path,
+        rw: true
+    };
+}
+
+before(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'placement-'));
+    full = { path: path.join(dir, 'full'), threshold: 80 };
+    roomy = { path: path.join(dir, 'roomy'), threshold: 80 };
+    await fs.promises.mkdir(full.path);
+    await fs.promises.mkdir(roomy.path);
+
+    mock.method(SettingUtils, 'getRemotePaths', () => [full, roomy]);
+    mock.method(SettingUtils, 'getStorageConfig', () => ({ backend: 'filesystem', placement: 'most_free' }));
+    mock.method(FragmentIndex, 'getAll', () => []);
+    mock.method(PathUtils as unknown as { getFsSize(): Promise<Systeminformation.FsSizeData[]> }, 'getFsSize',
+        async () => [full, roomy].map(fsSizeOf));
+});
+
+beforeEach(() => {
+    used.set(full.path, 850_000);
+    used.set(roomy.path, 500_000);
+});
+
+after(async () => {
+    mock.restoreAll();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+test('counts only the room left below the threshold as available', async () => {
+    const [fullInfo, roomyInfo] = await PathUtils.analyzeStoragePaths([full, roomy]);
+    assert.equal(fullInfo.availableSpace, 0);
+    assert.equal(roomyInfo.availableSpace, 300_000);
+});
+
+test('places nothing on a path over its threshold', async () => {
+    const reservation = await PlacementUtils.reserve(1000);
+    assert.equal(reservation?.path, roomy.path);
+    reservation!.release();
+
+    used.set(roomy.path, 800_000);
+    assert.equal(await PlacementUtils.reserve(1000), undefined);
+    // Fragments of unknown size need some room left too
+    assert.equal(await PlacementUtils.reserve(0), undefined);
+});
+
+test('does not place a fragment that would cross the threshold', async () => {
+    assert.equal(await PlacementUtils.reserve(300_001), undefined);
+
+    const reservation = await PlacementUtils.reserve(300_000);
+    assert.equal(reservation?.path, roomy.path);
+    reservation!.release();
+});
@@ -0,0 +1,43 @@
+import { test, before, after, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import QuotaSocketController from '../src/controllers/quotaSocket';
+import SettingUtils from '../src/utils/setting';
+import PathUtils from '../src/utils/path';
+import StorageUtils from '../src/utils/storage';
+import FragmentIndex from '../src/utils/fragmentIndex';
+import Logger from '../src/utils/logger';
+import type { FragmentRecord, StoragePath } from '../src/types';
+
+const storagePath: StoragePath = { path: '/data/a', threshold: 80, max_fragments: 2 };
+
+function record(id: string, lastServedAt: number): FragmentRecord {
+    return { id, path: `${storagePath.path}/${id}`, size: 1000, created_at: 0, last_served_at: lastServedAt };
+}
+
+const records = [record('oldest', 1), record('older', 2), record('newest', 3)];
+const removed: string[] = [];
+const deleted: string[] = [];
+
+before(() => {
+    Logger.configure({ level: 'error', format: 'text' });
+    mock.method(SettingUtils, 'getRemotePaths', () => [storagePath]);
+    mock.method(SettingUtils, 'getQuotaConfig', () => ({ enabled: true, interval_minutes: 60, policy: 'lru', headroom_percent: 5 }));
+    mock.method(PathUtils, 'analyzeStoragePaths', async () => [
+        { path: storagePath.path, filesystem: 'ext4', mount: storagePath.path, availableSpace: 0, size: 1_000_000, used: 3000 }
+    ]);
+    mock.method(FragmentIndex, 'getAll', () => records);
+    mock.method(FragmentIndex, 'remove', async (fragmentIds: string[]) => { removed.push(...fragmentIds); });
+    mock.method(StorageUtils, 'deleteAll', async (locations: string[]) => { deleted.push(...locations); });
+});
+
+after(() => {
+    mock.restoreAll();
+});
+
+test('does not evict fragments that are being sent or can be resumed', async () => {
+    const quota = new QuotaSocketController(() => new Map(), () => new Set(['oldest']));
+    await quota.enforce();
+
+    assert.deepEqual(removed, ['older']);
+    assert.deepEqual(deleted, [`${storagePath.path}/older`]);
+});
@@ -0,0 +1,163 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { randomBytes } from 'crypto';
+import S3Backend from '../src/storage/S3Backend';
+import type { HttpUrl } from '../src/types';
+
+const BUCKET = 'fragments';
+
+/**
+ * Minimal path-style S3 stand-in, like a local MinIO: keeps objects in memory
+ * and lists them two per page so continuation tokens are exercised
+ */
+class S3StandIn {
+    public readonly objects: Map<string, Buffer> = new Map();
+    // Answer range requests with the whole object, as some servers do
+    public ignoreRange = false;
+    private server = http.createServer((request, response) => this.handle(request, response));
+
+    public async start(): Promise<string> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    public stop(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        if (!request.headers.authorization?.startsWith('AWS4-HMAC-SHA256 Credential=test-key/')) {
+            this.error(response, 403, 'AccessDenied');
+            return;
+        }
+
+        const url = new URL(request.url!, 'http://stand-in');
+        const [, bucket, ...keyParts] = url.pathname.split('/');
+        const key = keyParts.map(decodeURIComponent).join('/');
+        if (bucket !== BUCKET) {
+            this.error(response, 404, 'NoSuchBucket');
+            return;
+        }
+
+        if (request.method === 'GET' && key === '') {
+            this.list(url, response);
+            return;
+        }
+        if (request.method === 'PUT') {
+            const chunks: Buffer[] = [];
+            for await (const chunk of request) chunks.push(chunk);
+            this.objects.set(key, Buffer.concat(chunks));
+            response.end();
+            return;
+        }
+        if (request.method === 'DELETE') {
+            this.objects.delete(key);
+            response.statusCode = 204;
+            response.end();
+            return;
+        }
+
+        const object = this.objects.get(key);
+        if (!object) {
+            this.error(response, 404, 'NoSuchKey');
+            return;
+        }
+        const range = request.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+        if (range && !this.ignoreRange) {
+            const body = object.subarray(Number(range[1]), Number(range[2]) + 1);
+            response.writeHead(206, { 'content-length': body.length });
+            response.end(request.method === 'HEAD' ? undefined : body);
+            return;
+        }
+        response.writeHead(200, { 'content-length': object.length });
+        response.end(request.method === 'HEAD' ? undefined : object);
+    }
+
+    private list(url: URL, response: http.ServerResponse): void {
+        const prefix = url.searchParams.get('prefix') || '';
+        const keys = Array.from(this.objects.keys()).filter(key => key.startsWith(prefix)).sort();
+        const start = Number(url.searchParams.get('continuation-token') || 0);
+        const page = keys.slice(start, start + 2);
+        const truncated = start + 2 < keys.length;
+
+        response.setHeader('content-type', 'application/xml');
+        response.end(
+            '<?xml version="1.0" encoding="UTF-8"?><ListBucketResult>' +
+            page.map(key => `<Contents><Key>${key}</Key><Size>${this.objects.get(key)!.length}</Size></Contents>`).join('') +
+            `<IsTruncated>${truncated}</IsTruncated>` +
+            (truncated ? `<NextContinuationToken>${start + 2}</NextContinuationToken>` : '') +
+            '</ListBucketResult>'
+        );
+    }
+
+    private error(response: http.ServerResponse, statusCode: number, code: string): void {
+        response.writeHead(statusCode, { 'content-type': 'application/xml' });
+        response.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message></Error>`);
+    }
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return Buffer.concat(chunks);
+}
+
+const standIn = new S3StandIn();
+let backend: S3Backend;
+
+before(async () => {
+    const endpoint = await standIn.start();
+    backend = new S3Backend({
+        endpoint: endpoint as HttpUrl,
+        region: 'us-east-1',
+        bucket: BUCKET,
+        prefix: 'node-1/',
+        access_key_id: 'test-key',
+        secret_access_key: 'test-secret',
+        force_path_style: true
+    }, {});
+});
+
+after(() => standIn.stop());
+
+test('stores, reads, lists and deletes fragments', async () => {
+    const data = randomBytes(100_000);
+    const location = await backend.put('fragment-a', Readable.from([data]), data.length);
+    assert.equal(location, `s3://${BUCKET}/node-1/fragment-a`);
+    assert.deepEqual(standIn.objects.get('node-1/fragment-a'), data);
+
+    assert.deepEqual(await readAll(await backend.createReadStream(location)), data);
+    assert.deepEqual(await readAll(await backend.createReadStream(location, { start: 1000, end: 5000 })), data.subarray(1000, 5000));
+    assert.deepEqual(await backend.stat(location), { fragmentId: 'fragment-a', location, size: data.length });
+
+    for (const fragmentId of ['fragment-b', 'fragment-c']) {
+        await backend.put(fragmentId, Readable.from([Buffer.from(fragmentId)]), fragmentId.length);
+    }
+    standIn.objects.set('other-node/fragment-d', Buffer.from('not ours'));
+    const listed = await backend.list();
+    assert.deepEqual(listed.map(object => [object.fragmentId, object.size]), [
+        ['fragment-a', data.length],
+        ['fragment-b', 10],
+        ['fragment-c', 10]
+    ]);
+
+    await backend.delete(location);
+    assert.equal(await backend.stat(location), undefined);
+    // Deleting again succeeds, the fragment is already gone
+    await backend.delete(location);
+    await assert.rejects(backend.createReadStream(location), /HTTP 404: NoSuchKey/);
+});
+
+test('rejects a full object sent for a range request', async () => {
+    const location = await backend.put('fragment-e', Readable.from([Buffer.alloc(1000)]), 1000);
+    standIn.ignoreRange = true;
+    try {
+        await assert.rejects(backend.createReadStream(location, { start: 0, end: 10 }), /HTTP 200, expected 206/);
+        assert.equal((await readAll(await backend.createReadStream(location))).length, 1000);
+    } finally {
+        standIn.ignoreRange = false;
+    }
+});
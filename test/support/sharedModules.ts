@@ -0,0 +1,24 @@
+import Module from 'module';
+import * as path from 'path';
+
+/**
+ * The signaling definitions shared with the server live next to this repo in
+ * the monorepo. A checkout on its own resolves them to the stand-ins in this
+ * directory instead, so the tests run either way.
+ */
+const SHARED_MODULE = /[\\/]config[\\/](signal\.socket\.event\.(?:webrtc|node))$/;
+
+const loader = Module as unknown as {
+    _resolveFilename(request: string, ...rest: unknown[]): string
+};
+const resolveFilename = loader._resolveFilename;
+
+loader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+    try {
+        return resolveFilename.call(this, request, ...rest);
+    } catch (error) {
+        const match = request.match(SHARED_MODULE);
+        if (!match) throw error;
+        return path.join(__dirname, `${match[1]}.ts`);
+    }
+};
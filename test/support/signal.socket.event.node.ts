@@ -0,0 +1,10 @@
+// Stand-in for the shared node signaling definitions, see sharedModules.ts
+
+export const SIGN_UP = 'node:sign-up';
+export const SIGN_IN = 'node:sign-in';
+export const DEVICE_UPDATE = 'node:device-update';
+export const HASH_EMPTY = 'node:hash-empty';
+export const HASH_VERIFY = 'node:hash-verify';
+export const COMMAND = 'node:command';
+export const COMMAND_VERIFY = 'node:command-verify';
+export const CLIENT_REQUEST_STATS = 'node:client-request-stats';
@@ -0,0 +1,23 @@
+// Stand-in for the shared WebRTC signaling definitions, see sharedModules.ts
+
+export const OFFER = 'webrtc:offer';
+export const ANSWER = 'webrtc:answer';
+export const ICE_CANDIDATE = 'webrtc:ice-candidate';
+export const PEER_STATS = 'webrtc:peer-stats';
+
+export enum DataChannelMessageType {
+    READY_NODE = 'READY_NODE',
+    CANCELED = 'CANCELED'
+}
+
+export enum RequestFragmentStatus {
+    STARTING = 'STARTING',
+    QUEUED = 'QUEUED',
+    IN_PROGRESS = 'IN_PROGRESS',
+    COMPLETED = 'COMPLETED',
+    CANCELED = 'CANCELED',
+    FAILED = 'FAILED',
+    FILE_NOT_FOUND = 'FILE_NOT_FOUND',
+    DATA_CHANNEL_CLOSED = 'DATA_CHANNEL_CLOSED',
+    LOW_MEMORY = 'LOW_MEMORY'
+}